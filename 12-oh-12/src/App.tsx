@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef, useLayoutEffect, useCallback, useMemo } from 'react';
+import type { ReactNode } from 'react';
 import { AudioEngine } from './audio/engine';
 import { Visualizer } from './components/Visualizer';
 import { TrackRow } from './components/TrackRow';
@@ -10,13 +11,33 @@ import { ScrollableSlider } from './components/ScrollableSlider';
 import { Step } from './components/Step';
 import { ScrollableSelect } from './components/ScrollableSelect';
 import { PianoRoll } from './components/PianoRoll';
+import { SliceWaveform } from './components/SliceWaveform';
+import { ArpControls } from './components/ArpControls';
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
-import { loadScenes, saveScenes, createEmptyScene, downloadScene, importScene, downloadProject, parseProjectFile, loadProModeParams, saveProModeParams } from './utils/storage';
+import { useRecordKeys } from './hooks/useRecordKeys';
+import { useHistory } from './hooks/useHistory';
+import type { HistorySnapshot } from './hooks/useHistory';
+import { loadScenes, saveScenes, createEmptyScene, downloadScene, importScene, downloadProject, parseProjectFile, loadProModeParams, saveProModeParams, loadSong, saveSong, loadGrooves, saveGrooves } from './utils/storage';
+import { SongArranger } from './components/SongArranger';
 import { ImportSelectionModal } from './components/ImportSelectionModal';
-import type { Instrument, Scene, InstrumentParams, ProModeParams, ProjectFile } from './types';
+import { GrooveEditor } from './components/GrooveEditor';
+import { RecordPanel } from './components/RecordPanel';
+import { TransportDisplay } from './components/TransportDisplay';
+import type { RecordKeysTarget } from './components/RecordPanel';
+import type { Instrument, Scene, InstrumentParams, ProModeParams, ProjectFile, Song } from './types';
+import type { StepGrouping, LaunchQuantize, TrigCondition, RatchetRamp, ParamLocks, GatedInstrument, GrooveTemplate, StepResolution, RecordMode, MetronomeSound, TransportPosition, SampleRef, SliceMode, ChordSpread, ArpInstrument, ArpSettings, FMOperatorParam, FMOperatorKey } from './types';
+import { INSTRUMENTS, TOMS, MAX_STEPS, DEFAULT_TRACK_LENGTH, STEPS_PER_PAGE, PATTERN_LENGTHS, TRIG_CONDITIONS, MAX_RATCHETS, MAX_NUDGE, GATE_OPTIONS, MIN_BPM, MAX_BPM, METRONOME_SOUNDS, MAX_SAMPLE_PITCH, SLICE_MODES, MAX_SLICES, CHORD_SPREADS, FM_ALGORITHMS, FM_OPERATOR_PARAMS, MIN_FM_OPERATORS, MAX_FM_OPERATORS } from './types';
+import { fitSteps, clampTrackLength, clampPatternLength, getStepGroups, STEP_GROUPINGS, formatGate } from './utils/steps';
+import { randomizeTrack } from './utils/randomization';
+import { clampBpm, addTap, getTapTempo, TEMPO_NUDGE } from './utils/tempo';
+import { BUILT_IN_GROOVES, DEFAULT_GROOVE_ID, isBuiltInGroove, createUserGroove } from './utils/grooves';
+import { createSampleId, saveSample, loadSample, embedSample, extractSample, SAMPLE_FILE_TYPES } from './utils/samples';
+import type { StoredSample } from './utils/samples';
+import { DEFAULT_SLICE_COUNT } from './utils/slices';
+import { CHORD_TYPES, INVERSION_LABELS, MAX_INVERSION } from './utils/chords';
 
 // Initial Pattern: Basic House Beat
-const INITIAL_GRID: Record<Instrument, boolean[]> = {
+const INITIAL_PATTERN: Record<Instrument, boolean[]> = {
   kick:  [true, false, false, false, true, false, false, false, true, false, false, false, true, false, false, false],
   snare: [false, false, false, false, true, false, false, false, false, false, false, false, true, false, false, false],
   hihat: [false, false, true, false, false, false, true, false, false, false, true, false, false, false, true, false],
@@ -24,59 +45,190 @@ const INITIAL_GRID: Record<Instrument, boolean[]> = {
   bass:  [false, false, true, false, false, true, false, false, false, true, false, false, true, false, false, true],
   pad:   [false, false, false, false, false, false, false, false, false, false, false, false, false, false, false, false],
   poly:  [false, false, false, false, false, false, false, false, false, false, false, false, false, false, false, false],
-  kick909: [], snare909: [], hihat909: [], clap909: [] // Unused placeholders
+  openhat: [], kick909: [], snare909: [], hihat909: [], clap909: [],
+  lowtom: [], midtom: [], hightom: [], rimshot: [], cowbell: [], ride: [], crash: [], sampler: [], slicer: [], fm: [] // The rest of the kit starts empty
 };
 
+// Patterns are stored at full length; steps past a track's length are simply not played
+const INITIAL_GRID = Object.fromEntries(
+  INSTRUMENTS.map(inst => [inst, fitSteps(INITIAL_PATTERN[inst], false)])
+) as Record<Instrument, boolean[]>;
+
+const INITIAL_TRACK_LENGTHS = Object.fromEntries(
+  INSTRUMENTS.map(inst => [inst, DEFAULT_TRACK_LENGTH])
+) as Record<Instrument, number>;
+
+const INITIAL_TRACK_STEPS = Object.fromEntries(
+  INSTRUMENTS.map(inst => [inst, 0])
+) as Record<Instrument, number>;
+
 const INITIAL_MUTES: Record<Instrument, boolean> = { 
-  kick: false, snare: false, hihat: false, clap: false, bass: false, pad: false, poly: false,
+  kick: false, snare: false, hihat: false, openhat: false, clap: false, bass: false, pad: false, poly: false, fm: false,
+  lowtom: false, midtom: false, hightom: false, rimshot: false, cowbell: false, ride: false, crash: false, sampler: false, slicer: false,
   kick909: false, snare909: false, hihat909: false, clap909: false
 };
 const INITIAL_SOLOS: Record<Instrument, boolean> = { 
-  kick: false, snare: false, hihat: false, clap: false, bass: false, pad: false, poly: false,
+  kick: false, snare: false, hihat: false, openhat: false, clap: false, bass: false, pad: false, poly: false, fm: false,
+  lowtom: false, midtom: false, hightom: false, rimshot: false, cowbell: false, ride: false, crash: false, sampler: false, slicer: false,
   kick909: false, snare909: false, hihat909: false, clap909: false
 };
 const INITIAL_VOLUMES: Record<Instrument, number> = { 
-  kick: -12, snare: -12, hihat: -12, clap: -12, bass: -12, pad: -12, poly: -12,
-  kick909: 0, snare909: 0, hihat909: 0, clap909: 0
+  kick: -12, snare: -12, hihat: -12, openhat: -12, clap: -12, bass: -12, pad: -12, poly: -12, fm: -12,
+  lowtom: -12, midtom: -12, hightom: -12, rimshot: -12, cowbell: -12, ride: -12, crash: -12, sampler: -12, slicer: -12,
+  kick909: -12, snare909: -12, hihat909: -12, clap909: -12
 };
 const INITIAL_REVERB_SENDS: Record<Instrument, number> = {
-  kick: -60, snare: -60, hihat: -60, clap: -60, bass: -60, pad: -60, poly: -60,
+  kick: -60, snare: -60, hihat: -60, openhat: -60, clap: -60, bass: -60, pad: -60, poly: -60, fm: -60,
+  lowtom: -60, midtom: -60, hightom: -60, rimshot: -60, cowbell: -60, ride: -60, crash: -60, sampler: -60, slicer: -60,
   kick909: -60, snare909: -60, hihat909: -60, clap909: -60
 };
 const INITIAL_DELAY_SENDS: Record<Instrument, number> = {
-  kick: -60, snare: -60, hihat: -60, clap: -60, bass: -60, pad: -60, poly: -60,
+  kick: -60, snare: -60, hihat: -60, openhat: -60, clap: -60, bass: -60, pad: -60, poly: -60, fm: -60,
+  lowtom: -60, midtom: -60, hightom: -60, rimshot: -60, cowbell: -60, ride: -60, crash: -60, sampler: -60, slicer: -60,
   kick909: -60, snare909: -60, hihat909: -60, clap909: -60
 };
 const INITIAL_EQ_GAINS: Record<Instrument, { low: number; mid: number; high: number }> = {
   kick: { low: 0, mid: 0, high: 0 },
   snare: { low: 0, mid: 0, high: 0 },
   hihat: { low: 0, mid: 0, high: 0 },
+  openhat: { low: 0, mid: 0, high: 0 },
   clap: { low: 0, mid: 0, high: 0 },
+  lowtom: { low: 0, mid: 0, high: 0 },
+  midtom: { low: 0, mid: 0, high: 0 },
+  hightom: { low: 0, mid: 0, high: 0 },
+  rimshot: { low: 0, mid: 0, high: 0 },
+  cowbell: { low: 0, mid: 0, high: 0 },
+  ride: { low: 0, mid: 0, high: 0 },
+  crash: { low: 0, mid: 0, high: 0 },
+  sampler: { low: 0, mid: 0, high: 0 },
+  slicer: { low: 0, mid: 0, high: 0 },
   bass: { low: 0, mid: 0, high: 0 },
   pad: { low: 0, mid: 0, high: 0 },
   poly: { low: 0, mid: 0, high: 0 },
+  fm: { low: 0, mid: 0, high: 0 },
   kick909: { low: 0, mid: 0, high: 0 },
   snare909: { low: 0, mid: 0, high: 0 },
   hihat909: { low: 0, mid: 0, high: 0 },
   clap909: { low: 0, mid: 0, high: 0 }
 };
 
+// Live recording: the keyboard's lowest note per track (before octave shifts) and the notes each track accepts
+const RECORD_BASE_NOTES: Record<RecordKeysTarget, number> = { bass: 36, poly: 60 };
+const RECORD_NOTE_RANGES: Record<RecordKeysTarget, [number, number]> = { bass: [24, 60], poly: [36, 84] };
+const RECORD_VELOCITY = 100;
+const RECORD_ACCENT_VELOCITY = 127;
+
+// Drum tracks with plain step rows, in display order; the sampler and slicer sit between the two kits
+interface DrumTrack {
+  inst: Instrument;
+  label: string;
+}
+const KIT_TRACKS: DrumTrack[] = [
+  { inst: 'kick', label: 'kick' },
+  { inst: 'snare', label: 'snare' },
+  { inst: 'hihat', label: 'hihat' },
+  { inst: 'openhat', label: 'open hat' },
+  { inst: 'clap', label: 'clap' },
+  { inst: 'lowtom', label: 'low tom' },
+  { inst: 'midtom', label: 'mid tom' },
+  { inst: 'hightom', label: 'high tom' },
+  { inst: 'rimshot', label: 'rimshot' },
+  { inst: 'cowbell', label: 'cowbell' },
+  { inst: 'ride', label: 'ride' },
+  { inst: 'crash', label: 'crash' },
+];
+const KIT909_TRACKS: DrumTrack[] = [
+  { inst: 'kick909', label: '909 kick' },
+  { inst: 'snare909', label: '909 snare' },
+  { inst: 'hihat909', label: '909 hihat' },
+  { inst: 'clap909', label: '909 clap' },
+];
+
 const INITIAL_PARAMS: InstrumentParams = {
   kick: { tune: 0.05, decay: 0.4, distortion: 0 },
   snare: { tone: 3000, snappy: 0.2 },
   hihat: { decay: 0.2, tone: 3000 },
+  openhat: { decay: 0.8, tone: 3000 },
   clap: { decay: 0.3, tone: 1500 },
+  lowtom: { tune: 90, decay: 0.5 },
+  midtom: { tune: 130, decay: 0.4 },
+  hightom: { tune: 180, decay: 0.35 },
+  rimshot: { tune: 450, decay: 0.04 },
+  cowbell: { tune: 540, decay: 0.3 },
+  ride: { decay: 1.6, tone: 5000 },
+  crash: { decay: 2.2, tone: 3500 },
+  sampler: { start: 0, end: 1, pitch: 0, reverse: 0, attack: 0.001, release: 0.05 },
+  slicer: { pitch: 0, attack: 0.001, release: 0.02 },
+  kick909: { tune: 50, sweep: 0.04, decay: 0.5, click: 0.5 },
+  snare909: { tune: 185, tone: 7000, snappy: 0.6, decay: 0.2 },
+  hihat909: { decay: 0.1, tone: 7000 },
+  clap909: { decay: 0.25, tone: 1200 },
   bass: { cutoff: 200, resonance: 2, envMod: 2, decay: 0.2 },
   pad: { attack: 0.3, release: 1.5, cutoff: 2000, detune: 12, distortion: 0 },
-  poly: { attack: 0.1, decay: 0.2, sustain: 0.5, release: 1.0, filter: 2000, detune: 0, oscillator: 'square' }
+  poly: { attack: 0.1, decay: 0.2, sustain: 0.5, release: 1.0, filter: 2000, detune: 0, oscillator: 'square' },
+  fm: {
+    operators: 2, algorithm: 0,
+    op1Ratio: 1, op1Level: 0.8, op1Attack: 0.005, op1Decay: 1.2, op1Sustain: 0.2, op1Release: 0.6,
+    op2Ratio: 1, op2Level: 2.5, op2Attack: 0.005, op2Decay: 0.5, op2Sustain: 0.1, op2Release: 0.5,
+    op3Ratio: 2, op3Level: 1, op3Attack: 0.005, op3Decay: 0.4, op3Sustain: 0.1, op3Release: 0.4,
+    op4Ratio: 3.5, op4Level: 0.5, op4Attack: 0.005, op4Decay: 0.3, op4Sustain: 0, op4Release: 0.3
+  }
+};
+
+/**
+ * Push every Pro Mode param to the engine (after an import or an undo)
+ */
+const syncProModeParams = (params: ProModeParams) => {
+  AudioEngine.setMasterVolume(params.masterVolume);
+  AudioEngine.setMasterCompressorThreshold(params.masterCompressor.threshold);
+  AudioEngine.setMasterCompressorRatio(params.masterCompressor.ratio);
+  AudioEngine.setMasterCompressorAttack(params.masterCompressor.attack);
+  AudioEngine.setMasterCompressorRelease(params.masterCompressor.release);
+  AudioEngine.setMasterCompressorBypass(params.masterCompressor.bypass);
+
+  AudioEngine.setTapeBypass(params.tapeChain.bypass);
+  AudioEngine.setTapeCompressorThreshold(params.tapeChain.compThreshold);
+  AudioEngine.setTapeCompressorRatio(params.tapeChain.compRatio);
+  AudioEngine.setTapeCompressorAttack(params.tapeChain.compAttack);
+  AudioEngine.setTapeCompressorRelease(params.tapeChain.compRelease);
+  AudioEngine.setTapeDistortion(params.tapeChain.distortion);
+  AudioEngine.setTapeFilterCutoff(params.tapeChain.filterCutoff);
+
+  AudioEngine.setReverbBypass(params.reverb.bypass);
+  AudioEngine.setReverbDecay(params.reverb.decay);
+  AudioEngine.setReverbPreDelay(params.reverb.preDelay);
+  AudioEngine.setReverbToneFilter(params.reverb.toneFilter);
+  AudioEngine.setReverbPreFilter(params.reverb.preFilter);
+  AudioEngine.setReverbPostFilter(params.reverb.postFilter);
+
+  AudioEngine.setDelayBypass(params.delay.bypass);
+  AudioEngine.setDelayTime(params.delay.time);
+  AudioEngine.setDelayFeedback(params.delay.feedback);
+  AudioEngine.setDelayPreFilter(params.delay.preFilter);
+  AudioEngine.setDelayPostFilter(params.delay.postFilter);
+
+  if (params.trackEnabled) {
+    Object.entries(params.trackEnabled).forEach(([inst, enabled]) => {
+      AudioEngine.setTrackEnabled(inst as Instrument, enabled);
+    });
+  }
 };
 
 function App() {
   const [isPlaying, setIsPlaying] = useState(false);
   const [bpm, setBpm] = useState(120);
+  const [tempoNudge, setTempoNudge] = useState(0); // -1, 0 or 1 while a nudge button is held
   const [currentStep, setCurrentStep] = useState(0);
+  const [trackSteps, setTrackSteps] = useState<Record<Instrument, number>>(INITIAL_TRACK_STEPS);
   const [isAudioReady, setIsAudioReady] = useState(false);
   const [swing, setSwing] = useState(0);
+  const [groove, setGroove] = useState(DEFAULT_GROOVE_ID);
+  const [trackGrooves, setTrackGrooves] = useState<Record<Instrument, string | null>>(() => createEmptyScene('').trackGrooves);
+  const [trackSwing, setTrackSwing] = useState<Record<Instrument, number | null>>(() => createEmptyScene('').trackSwing);
+  const [chokeGroups, setChokeGroups] = useState<Record<Instrument, number | null>>(() => createEmptyScene('').chokeGroups);
+  // User groove templates are shared by every scene and saved with the project
+  const [userGrooves, setUserGrooves] = useState<GrooveTemplate[]>(() => loadGrooves());
+  const [editingGroove, setEditingGroove] = useState<GrooveTemplate | null>(null);
   const [theme, setTheme] = useState<'night' | 'day'>('night');
   
   const [grid, setGrid] = useState(INITIAL_GRID);
@@ -89,31 +241,90 @@ function App() {
   const [velocities, setVelocities] = useState<Record<Instrument, number[]>>(() => {
     // Initialize velocities to 100/127 for all
     const vels: any = {};
-    const insts: Instrument[] = ['kick', 'snare', 'hihat', 'clap', 'bass', 'pad', 'poly', 'kick909', 'snare909', 'hihat909', 'clap909'];
-    insts.forEach(i => vels[i] = new Array(16).fill(100));
+    const insts: Instrument[] = ['kick', 'snare', 'hihat', 'openhat', 'clap', 'lowtom', 'midtom', 'hightom', 'rimshot', 'cowbell', 'ride', 'crash', 'sampler', 'slicer', 'bass', 'pad', 'poly', 'fm', 'kick909', 'snare909', 'hihat909', 'clap909'];
+    insts.forEach(i => vels[i] = new Array(MAX_STEPS).fill(100));
     return vels;
   });
+  const [probabilities, setProbabilities] = useState<Record<Instrument, number[]>>(() => createEmptyScene('').probabilities);
+  const [conditions, setConditions] = useState<Record<Instrument, TrigCondition[]>>(() => createEmptyScene('').conditions);
+  const [nudges, setNudges] = useState<Record<Instrument, number[]>>(() => createEmptyScene('').nudges);
+  const [ratchets, setRatchets] = useState<Record<Instrument, number[]>>(() => createEmptyScene('').ratchets);
+  const [ratchetRamps, setRatchetRamps] = useState<Record<Instrument, RatchetRamp[]>>(() => createEmptyScene('').ratchetRamps);
+  const [paramLocks, setParamLocks] = useState<ParamLocks>({});
+  // Step held for parameter locking: knob moves on its track write locks instead of scene params
+  const [heldStep, setHeldStep] = useState<{ inst: Instrument; step: number } | null>(null);
+  const [fillActive, setFillActive] = useState(false);
+  const [trackLengths, setTrackLengths] = useState<Record<Instrument, number>>(INITIAL_TRACK_LENGTHS);
+  const [trackResolutions, setTrackResolutions] = useState<Record<Instrument, StepResolution>>(() => createEmptyScene('').trackResolutions);
+  const [patternLength, setPatternLength] = useState(16);
+  const [stepGrouping, setStepGrouping] = useState<StepGrouping>('4/4');
+  const [page, setPage] = useState(0);
+  const [followPlayhead, setFollowPlayhead] = useState(true);
   const [params, setParams] = useState<InstrumentParams>(INITIAL_PARAMS);
   const [proMode, setProMode] = useState(false);
   const [proModeParams, setProModeParams] = useState<ProModeParams>(() => loadProModeParams());
 
   /* Per-step Bass Pitches (MIDI notes) */
-  const [bassPitches, setBassPitches] = useState<number[]>(new Array(16).fill(36)); // Default C2 (36)
+  const [bassPitches, setBassPitches] = useState<number[]>(new Array(MAX_STEPS).fill(36)); // Default C2 (36)
+  const [bassAccents, setBassAccents] = useState<boolean[]>(new Array(MAX_STEPS).fill(false));
+  const [bassSlides, setBassSlides] = useState<boolean[]>(new Array(MAX_STEPS).fill(false));
   /* Per-step Pad Pitches & Voicings */
-  const [padPitches, setPadPitches] = useState<number[]>(new Array(16).fill(48)); // Default C3 (48)
-  const [padVoicings, setPadVoicings] = useState<string[]>(new Array(16).fill('single'));
-  const PAD_VOICING_OPTIONS = ['single', 'major', 'minor', 'maj7', 'min7', 'sus4', 'dim', 'aug'];
+  const [padPitches, setPadPitches] = useState<number[]>(new Array(MAX_STEPS).fill(48)); // Default C3 (48)
+  const [padVoicings, setPadVoicings] = useState<string[]>(new Array(MAX_STEPS).fill('single'));
+  const [padInversions, setPadInversions] = useState<number[]>(new Array(MAX_STEPS).fill(0));
+  const [padSpread, setPadSpread] = useState<ChordSpread>('close');
+  const [padVoiceLeading, setPadVoiceLeading] = useState(false);
+  /* Arpeggiators for the chord tracks */
+  const [arps, setArps] = useState<Record<ArpInstrument, ArpSettings>>(() => createEmptyScene('').arps);
   /* Per-step Poly Notes (Piano Roll) */
-  const [polyNotes, setPolyNotes] = useState<number[][]>(new Array(16).fill([]));
+  const [polyNotes, setPolyNotes] = useState<number[][]>(new Array(MAX_STEPS).fill([]));
+  /* Per-step FM Notes (Piano Roll) and the operator shown in the FM controls */
+  const [fmNotes, setFmNotes] = useState<number[][]>(new Array(MAX_STEPS).fill([]));
+  const [fmEditOperator, setFmEditOperator] = useState(1);
+  /* Sampler track: the loaded sample and per-step pitch offsets */
+  const [sample, setSample] = useState<SampleRef | null>(null);
+  const [samplerPitches, setSamplerPitches] = useState<number[]>(new Array(MAX_STEPS).fill(0));
+  /* Slicer track: the loaded sample, how it is cut and the slice each step plays */
+  const [slicerSample, setSlicerSample] = useState<SampleRef | null>(null);
+  const [slicerMode, setSlicerMode] = useState<SliceMode>('equal');
+  const [slicerCount, setSlicerCount] = useState(DEFAULT_SLICE_COUNT);
+  const [slicerSlices, setSlicerSlices] = useState<number[]>(() => createEmptyScene('').slicerSlices);
+  // Samples the engine has decoded, so their waveforms can be drawn
+  const [decodedSampleIds, setDecodedSampleIds] = useState<Set<string>>(() => new Set());
+  const markSampleDecoded = useCallback((id: string) => setDecodedSampleIds(prev => new Set(prev).add(id)), []);
+  /* Per-step note lengths for bass, pad and poly */
+  const [gates, setGates] = useState<Record<GatedInstrument, number[]>>(() => createEmptyScene('').gates);
 
   // Scene management
   const [scenes, setScenes] = useState<Scene[]>(() => loadScenes());
   const [activeSceneIndex, setActiveSceneIndex] = useState(0);
+  const [launchQuantize, setLaunchQuantize] = useState<LaunchQuantize>('bar');
+  const [queuedSceneIndex, setQueuedSceneIndex] = useState<number | null>(null);
   const [copiedScene, setCopiedScene] = useState<Scene | null>(null);
   const [showShortcutHelp, setShowShortcutHelp] = useState(false);
   const [pendingImport, setPendingImport] = useState<ProjectFile | null>(null);
   const [showImportModal, setShowImportModal] = useState(false);
 
+  // Song mode
+  const [song, setSong] = useState<Song>(() => loadSong());
+  const [songMode, setSongMode] = useState(false);
+  const [songPosition, setSongPosition] = useState<{ entryIndex: number; repeat: number } | null>(null);
+
+  // Live recording
+  const [recordArmed, setRecordArmed] = useState(false);
+  const [recordMode, setRecordMode] = useState<RecordMode>('overdub');
+  const [recordQuantize, setRecordQuantize] = useState(100);
+  const [recordKeysTarget, setRecordKeysTarget] = useState<RecordKeysTarget>('bass');
+  const [recordOctave, setRecordOctave] = useState(0);
+
+  // Metronome & count-in
+  const [metronomeOn, setMetronomeOn] = useState(false);
+  const [metronomeVolume, setMetronomeVolume] = useState(-6); // dB
+  const [metronomeSound, setMetronomeSound] = useState<MetronomeSound>('click');
+  const [countInBars, setCountInBars] = useState(0);
+  const [countInBeat, setCountInBeat] = useState<number | null>(null);
+  const [transportPosition, setTransportPosition] = useState<TransportPosition | null>(null);
+
   // Theme effect
   useLayoutEffect(() => {
     document.documentElement.setAttribute('data-theme', theme);
@@ -180,8 +391,43 @@ function App() {
           AudioEngine.setSnareDecay(params.snare.snappy);
           AudioEngine.setHiHatDecay(params.hihat.decay);
           AudioEngine.setHiHatTone(params.hihat.tone);
+          AudioEngine.setOpenHatDecay(params.openhat.decay);
+          AudioEngine.setOpenHatTone(params.openhat.tone);
           AudioEngine.setClapDecay(params.clap.decay);
           AudioEngine.setClapTone(params.clap.tone);
+          TOMS.forEach(tom => {
+            AudioEngine.setTomTune(tom, params[tom].tune);
+            AudioEngine.setTomDecay(tom, params[tom].decay);
+          });
+          AudioEngine.setRimshotTune(params.rimshot.tune);
+          AudioEngine.setRimshotDecay(params.rimshot.decay);
+          AudioEngine.setCowbellTune(params.cowbell.tune);
+          AudioEngine.setCowbellDecay(params.cowbell.decay);
+          AudioEngine.setRideDecay(params.ride.decay);
+          AudioEngine.setRideTone(params.ride.tone);
+          AudioEngine.setCrashDecay(params.crash.decay);
+          AudioEngine.setCrashTone(params.crash.tone);
+          AudioEngine.setSamplerStart(params.sampler.start);
+          AudioEngine.setSamplerEnd(params.sampler.end);
+          AudioEngine.setSamplerPitch(params.sampler.pitch);
+          AudioEngine.setSamplerReverse(params.sampler.reverse);
+          AudioEngine.setSamplerAttack(params.sampler.attack);
+          AudioEngine.setSamplerRelease(params.sampler.release);
+          AudioEngine.setSlicerPitch(params.slicer.pitch);
+          AudioEngine.setSlicerAttack(params.slicer.attack);
+          AudioEngine.setSlicerRelease(params.slicer.release);
+          AudioEngine.setKick909Tune(params.kick909.tune);
+          AudioEngine.setKick909Sweep(params.kick909.sweep);
+          AudioEngine.setKick909Decay(params.kick909.decay);
+          AudioEngine.setKick909Click(params.kick909.click);
+          AudioEngine.setSnare909Tune(params.snare909.tune);
+          AudioEngine.setSnare909Tone(params.snare909.tone);
+          AudioEngine.setSnare909Snappy(params.snare909.snappy);
+          AudioEngine.setSnare909Decay(params.snare909.decay);
+          AudioEngine.setHiHat909Decay(params.hihat909.decay);
+          AudioEngine.setHiHat909Tone(params.hihat909.tone);
+          AudioEngine.setClap909Decay(params.clap909.decay);
+          AudioEngine.setClap909Tone(params.clap909.tone);
           AudioEngine.setBassCutoff(params.bass.cutoff);
           AudioEngine.setBassResonance(params.bass.resonance);
           AudioEngine.setBassEnvMod(params.bass.envMod);
@@ -191,15 +437,47 @@ function App() {
           AudioEngine.setPadFilterCutoff(params.pad.cutoff);
           AudioEngine.setPadDetune(params.pad.detune);
           AudioEngine.setPadDistortion(params.pad.distortion);
+          AudioEngine.setFMAlgorithm(params.fm.algorithm);
+          AudioEngine.setFMOperators(params.fm.operators);
+          for (let op = 1; op <= MAX_FM_OPERATORS; op++) {
+            FM_OPERATOR_PARAMS.forEach(param => AudioEngine.setFMOperatorParam(op, param, params.fm[`op${op}${param}` as FMOperatorKey]));
+          }
 
           AudioEngine.updateBassPitches(bassPitches);
           AudioEngine.updatePadPitches(padPitches);
           AudioEngine.updatePadVoicings(padVoicings);
+          AudioEngine.updatePadInversions(padInversions);
+          AudioEngine.updatePadChordStyle(padSpread, padVoiceLeading);
+          AudioEngine.updateArps(arps);
           AudioEngine.updateBassPitches(bassPitches);
+          AudioEngine.updateBassAccents(bassAccents);
+          AudioEngine.updateBassSlides(bassSlides);
           AudioEngine.updatePadPitches(padPitches);
           AudioEngine.updatePadVoicings(padVoicings);
           AudioEngine.updatePolyNotes(polyNotes);
+          AudioEngine.updateFmNotes(fmNotes);
+          AudioEngine.updateSample(sample?.id ?? null);
+          AudioEngine.updateSamplerPitches(samplerPitches);
+          AudioEngine.updateSlicerSample(slicerSample?.id ?? null);
+          AudioEngine.updateSlicing(slicerMode, slicerCount);
+          AudioEngine.updateSlicerSlices(slicerSlices);
+          AudioEngine.updateGates(gates);
           AudioEngine.updateVelocities(velocities);
+          AudioEngine.updateProbabilities(probabilities);
+          AudioEngine.updateConditions(conditions);
+          AudioEngine.updateNudges(nudges);
+          AudioEngine.updateParams(params);
+          AudioEngine.updateParamLocks(paramLocks);
+          AudioEngine.updateRatchets(ratchets, ratchetRamps);
+          AudioEngine.updateTrackLengths(trackLengths);
+          AudioEngine.updateTrackResolutions(trackResolutions);
+          AudioEngine.updatePatternLength(patternLength);
+          AudioEngine.updateStepGrouping(stepGrouping);
+          AudioEngine.setSwing(swing);
+          AudioEngine.setGroove(groove);
+          AudioEngine.updateTrackGrooves(trackGrooves);
+          AudioEngine.updateTrackSwing(trackSwing);
+          AudioEngine.updateChokeGroups(chokeGroups);
 
           // Sync Pro Mode Params
           AudioEngine.setMasterVolume(proModeParams.masterVolume);
@@ -230,12 +508,25 @@ function App() {
           AudioEngine.setDelayPreFilter(proModeParams.delay.preFilter);
           AudioEngine.setDelayPostFilter(proModeParams.delay.postFilter);
 
-          AudioEngine.onStep((step) => {
+          // 3. Song mode starts from the first entry (or the loop start)
+          if (songMode) {
+            const entryIndex = song.loopEnabled ? song.loopStart : 0;
+            const startEntry = song.entries[entryIndex];
+            if (startEntry && startEntry.sceneIndex !== activeSceneIndex) {
+              loadSceneState(scenes[startEntry.sceneIndex]);
+              setActiveSceneIndex(startEntry.sceneIndex);
+            }
+            setSongPosition({ entryIndex, repeat: 0 });
+          }
+
+          AudioEngine.onStep((step, steps) => {
             setCurrentStep(step);
+            setTrackSteps(steps);
           });
       }
 
       setIsPlaying(targetState);
+      setQueuedSceneIndex(null);
       AudioEngine.togglePlay(targetState);
     } finally {
         isStarting.current = false;
@@ -321,22 +612,136 @@ function App() {
   }, []);
 
 
+  const handleTrackLengthChange = useCallback((inst: Instrument, length: number) => {
+    setTrackLengths(prev => {
+        const next = { ...prev, [inst]: clampTrackLength(length) };
+        AudioEngine.updateTrackLengths(next);
+        return next;
+    });
+  }, []);
+
+  const handleTrackResolutionChange = useCallback((inst: Instrument, resolution: StepResolution) => {
+    setTrackResolutions(prev => {
+        const next = { ...prev, [inst]: resolution };
+        AudioEngine.updateTrackResolutions(next);
+        return next;
+    });
+  }, []);
+
+  const handlePatternLengthChange = useCallback((length: number) => {
+    const newLength = clampPatternLength(length);
+    // Tracks that ran the full scene length follow it; shorter polymeter tracks keep theirs
+    const newTrackLengths = { ...trackLengths };
+    (Object.keys(newTrackLengths) as Instrument[]).forEach(inst => {
+      if (newTrackLengths[inst] === patternLength) newTrackLengths[inst] = newLength;
+    });
+    setPatternLength(newLength);
+    setTrackLengths(newTrackLengths);
+    AudioEngine.updatePatternLength(newLength);
+    AudioEngine.updateTrackLengths(newTrackLengths);
+  }, [patternLength, trackLengths]);
+
+  const handlePageSelect = useCallback((index: number) => {
+    setPage(index);
+    // Picking a page by hand stops the view from chasing the playhead
+    if (isPlaying) setFollowPlayhead(false);
+  }, [isPlaying]);
+
   const handleSwingChange = useCallback((val: number) => {
     setSwing(val);
     AudioEngine.setSwing(val);
   }, []);
 
-  const handleBpmChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const newBpm = parseInt(e.target.value);
+  const allGrooves = useMemo(() => [...BUILT_IN_GROOVES, ...userGrooves], [userGrooves]);
+
+  const handleGrooveChange = useCallback((id: string) => {
+    setGroove(id);
+    AudioEngine.setGroove(id);
+  }, []);
+
+  const handleTrackGrooveChange = useCallback((inst: Instrument, id: string | null) => {
+    setTrackGrooves(prev => {
+        const next = { ...prev, [inst]: id };
+        AudioEngine.updateTrackGrooves(next);
+        return next;
+    });
+  }, []);
+
+  const handleTrackSwingChange = useCallback((inst: Instrument, val: number | null) => {
+    setTrackSwing(prev => {
+        const next = { ...prev, [inst]: val };
+        AudioEngine.updateTrackSwing(next);
+        return next;
+    });
+  }, []);
+
+  const handleChokeGroupChange = useCallback((inst: Instrument, group: number | null) => {
+    setChokeGroups(prev => {
+        const next = { ...prev, [inst]: group };
+        AudioEngine.updateChokeGroups(next);
+        return next;
+    });
+  }, []);
+
+  const handleEditGroove = useCallback(() => {
+    const current = allGrooves.find(g => g.id === groove) ?? BUILT_IN_GROOVES[0];
+    // Built-in templates are edited as a copy
+    setEditingGroove(isBuiltInGroove(current.id) ? createUserGroove(current, `${current.name} Copy`) : current);
+  }, [allGrooves, groove]);
+
+  const handleSaveGroove = useCallback((saved: GrooveTemplate) => {
+    setUserGrooves(prev => prev.some(g => g.id === saved.id)
+      ? prev.map(g => (g.id === saved.id ? saved : g))
+      : [...prev, saved]);
+    handleGrooveChange(saved.id);
+    setEditingGroove(null);
+  }, [handleGrooveChange]);
+
+  const handleDeleteGroove = useCallback((id: string) => {
+    setUserGrooves(prev => prev.filter(g => g.id !== id));
+    // Anything using the deleted groove falls back to straight / the global groove
+    if (groove === id) handleGrooveChange(DEFAULT_GROOVE_ID);
+    setTrackGrooves(prev => {
+        const next = { ...prev };
+        (Object.keys(next) as Instrument[]).forEach(inst => {
+          if (next[inst] === id) next[inst] = null;
+        });
+        AudioEngine.updateTrackGrooves(next);
+        return next;
+    });
+    setEditingGroove(null);
+  }, [groove, handleGrooveChange]);
+
+  const handleBpmChange = useCallback((value: number) => {
+    const newBpm = clampBpm(value);
     setBpm(newBpm);
     AudioEngine.setBpm(newBpm);
   }, []);
 
+  const tapTimes = useRef<number[]>([]);
+  const handleTapTempo = useCallback(() => {
+    tapTimes.current = addTap(tapTimes.current, performance.now());
+    const tapped = getTapTempo(tapTimes.current);
+    if (tapped !== null) handleBpmChange(tapped);
+  }, [handleBpmChange]);
+
+  // Held nudge buttons bend the running tempo for beat matching; the scene BPM is untouched
+  const handleTempoNudge = useCallback((direction: number) => {
+    setTempoNudge(direction);
+    AudioEngine.setTempoNudge(direction * TEMPO_NUDGE);
+  }, []);
+
   /* Use Refs for stable access in handlers */
   const gridRef = useRef(grid);
+  const scenesRef = useRef(scenes);
+  const activeSceneIndexRef = useRef(activeSceneIndex);
+  useEffect(() => { scenesRef.current = scenes; }, [scenes]);
+  useEffect(() => { activeSceneIndexRef.current = activeSceneIndex; }, [activeSceneIndex]);
   const velocitiesRef = useRef(velocities);
   useEffect(() => { gridRef.current = grid; }, [grid]);
   useEffect(() => { velocitiesRef.current = velocities; }, [velocities]);
+  const heldStepRef = useRef(heldStep);
+  useEffect(() => { heldStepRef.current = heldStep; }, [heldStep]);
 
   const handleVelocityWheel = useCallback((e: WheelEvent, inst: Instrument, step: number) => {
      const currentGrid = gridRef.current;
@@ -359,6 +764,151 @@ function App() {
     });
   }, []);
 
+  const handleProbabilityWheel = useCallback((e: WheelEvent, inst: Instrument, step: number) => {
+    if (!gridRef.current[inst][step]) return;
+
+    const d = e.deltaY > 0 ? 1 : -1;
+    const amount = e.shiftKey ? 25 : 5;
+
+    setProbabilities(prev => {
+      const current = prev[inst][step];
+      const next = Math.min(100, Math.max(0, current + (d * amount)));
+      if (next === current) return prev;
+
+      const newRow = [...prev[inst]];
+      newRow[step] = next;
+      const newProbabilities = { ...prev, [inst]: newRow };
+      AudioEngine.updateProbabilities(newProbabilities);
+      return newProbabilities;
+    });
+  }, []);
+
+  const handleConditionWheel = useCallback((e: WheelEvent, inst: Instrument, step: number) => {
+    if (!gridRef.current[inst][step]) return;
+
+    const d = e.deltaY > 0 ? 1 : -1;
+
+    setConditions(prev => {
+      const index = TRIG_CONDITIONS.indexOf(prev[inst][step]);
+      const next = TRIG_CONDITIONS[(index + d + TRIG_CONDITIONS.length) % TRIG_CONDITIONS.length];
+
+      const newRow = [...prev[inst]];
+      newRow[step] = next;
+      const newConditions = { ...prev, [inst]: newRow };
+      AudioEngine.updateConditions(newConditions);
+      return newConditions;
+    });
+  }, []);
+
+  const handleNudgeWheel = useCallback((e: WheelEvent, inst: Instrument, step: number) => {
+    if (!gridRef.current[inst][step]) return;
+
+    // Right = later
+    const d = e.deltaX > 0 ? 1 : -1;
+    const amount = e.shiftKey ? 10 : 2;
+
+    setNudges(prev => {
+      const current = prev[inst][step];
+      const next = Math.min(MAX_NUDGE, Math.max(-MAX_NUDGE, current + (d * amount)));
+      if (next === current) return prev;
+
+      const newRow = [...prev[inst]];
+      newRow[step] = next;
+      const newNudges = { ...prev, [inst]: newRow };
+      AudioEngine.updateNudges(newNudges);
+      return newNudges;
+    });
+  }, []);
+
+  /* Step wheel: plain = velocity, Alt = probability (horizontal: nudge), Ctrl/Cmd = condition */
+  const handleStepWheel = useCallback((e: WheelEvent, inst: Instrument, step: number) => {
+    if (e.altKey && Math.abs(e.deltaX) > Math.abs(e.deltaY)) handleNudgeWheel(e, inst, step);
+    else if (e.altKey) handleProbabilityWheel(e, inst, step);
+    else if (e.ctrlKey || e.metaKey) handleConditionWheel(e, inst, step);
+    else handleVelocityWheel(e, inst, step);
+  }, [handleNudgeWheel, handleProbabilityWheel, handleConditionWheel, handleVelocityWheel]);
+
+  /* Right-click a step: cycle ratchet count 1-8, or with Shift the velocity ramp */
+  const ratchetsRef = useRef(ratchets);
+  const ratchetRampsRef = useRef(ratchetRamps);
+  useEffect(() => { ratchetsRef.current = ratchets; }, [ratchets]);
+  useEffect(() => { ratchetRampsRef.current = ratchetRamps; }, [ratchetRamps]);
+
+  const handleRatchetCycle = useCallback((e: MouseEvent, inst: Instrument, step: number) => {
+    if (!gridRef.current[inst][step]) return;
+
+    let newRatchets = ratchetsRef.current;
+    let newRamps = ratchetRampsRef.current;
+    if (e.shiftKey) {
+      const order: RatchetRamp[] = ['flat', 'up', 'down'];
+      const row = [...newRamps[inst]];
+      row[step] = order[(order.indexOf(row[step]) + 1) % order.length];
+      newRamps = { ...newRamps, [inst]: row };
+      setRatchetRamps(newRamps);
+    } else {
+      const row = [...newRatchets[inst]];
+      row[step] = row[step] >= MAX_RATCHETS ? 1 : row[step] + 1;
+      newRatchets = { ...newRatchets, [inst]: row };
+      setRatchets(newRatchets);
+    }
+    AudioEngine.updateRatchets(newRatchets, newRamps);
+  }, []);
+
+  /* Parameter locks: Shift+click an active step to hold it, then move its track's knobs */
+  const handleStepHold = useCallback((inst: Instrument, step: number) => {
+    setHeldStep(prev => (prev && prev.inst === inst && prev.step === step ? null : { inst, step }));
+  }, []);
+
+  const handleClearHeldLocks = useCallback(() => {
+    const held = heldStepRef.current;
+    if (!held) return;
+    setParamLocks(prev => {
+      const newLocks: ParamLocks = {};
+      Object.entries(prev).forEach(([path, steps]) => {
+        if (!path.startsWith(`${held.inst}.`) || steps[held.step] === undefined) {
+          newLocks[path] = steps;
+          return;
+        }
+        const rest = { ...steps };
+        delete rest[held.step];
+        if (Object.keys(rest).length > 0) newLocks[path] = rest;
+      });
+      AudioEngine.updateParamLocks(newLocks);
+      return newLocks;
+    });
+  }, []);
+
+  // Steps carrying at least one lock, per instrument
+  const lockedSteps = useMemo(() => {
+    const result: Partial<Record<Instrument, boolean[]>> = {};
+    Object.entries(paramLocks).forEach(([path, steps]) => {
+      const inst = path.split('.')[0] as Instrument;
+      const row = result[inst] || (result[inst] = new Array(MAX_STEPS).fill(false));
+      Object.keys(steps).forEach(step => { row[Number(step)] = true; });
+    });
+    return result;
+  }, [paramLocks]);
+
+  // Knobs show the held step's locked values
+  const shownParams = useMemo(() => {
+    if (!heldStep) return params;
+    const inst = heldStep.inst as keyof InstrumentParams;
+    if (!params[inst]) return params;
+    const overrides: Record<string, number> = {};
+    Object.entries(paramLocks).forEach(([path, steps]) => {
+      const [lockInst, param] = path.split('.');
+      if (lockInst === inst && steps[heldStep.step] !== undefined) overrides[param] = steps[heldStep.step];
+    });
+    return { ...params, [inst]: { ...params[inst], ...overrides } };
+  }, [params, paramLocks, heldStep]);
+
+  const handleFillToggle = useCallback(() => {
+    setFillActive(prev => {
+      AudioEngine.setFill(!prev);
+      return !prev;
+    });
+  }, []);
+
   /* Per-step Bass Pitches Handlers (State moved to top) */
   const handleBassPitchChange = useCallback((stepIndex: number, val: number) => {
     const clampedVal = Math.max(24, Math.min(60, val)); // C1 to C4
@@ -374,15 +924,45 @@ function App() {
     handleBassPitchChange(stepIndex, current + delta);
   }, [bassPitches, handleBassPitchChange]);
 
+  const handleBassAccentToggle = useCallback((stepIndex: number) => {
+    const newAccents = [...bassAccents];
+    newAccents[stepIndex] = !newAccents[stepIndex];
+    setBassAccents(newAccents);
+    AudioEngine.updateBassAccents(newAccents);
+  }, [bassAccents]);
+
+  const handleBassSlideToggle = useCallback((stepIndex: number) => {
+    const newSlides = [...bassSlides];
+    newSlides[stepIndex] = !newSlides[stepIndex];
+    setBassSlides(newSlides);
+    AudioEngine.updateBassSlides(newSlides);
+  }, [bassSlides]);
+
   const handleParamChange = useCallback((inst: keyof InstrumentParams, param: string, val: number) => {
+    // A held step on this track turns the knob move into a parameter lock (numeric params only)
+    const held = heldStepRef.current;
+    if (held && held.inst === inst && typeof val === 'number') {
+      const path = `${inst}.${param}`;
+      setParamLocks(prev => {
+        const newLocks = { ...prev, [path]: { ...prev[path], [held.step]: val } };
+        AudioEngine.updateParamLocks(newLocks);
+        return newLocks;
+      });
+      return;
+    }
+
     // Update state
-    setParams(prev => ({
-      ...prev,
-      [inst]: {
-        ...prev[inst],
-        [param]: val
-      }
-    }));
+    setParams(prev => {
+      const newParams = {
+        ...prev,
+        [inst]: {
+          ...prev[inst],
+          [param]: val
+        }
+      };
+      AudioEngine.updateParams(newParams);
+      return newParams;
+    });
 
     // Update Engine
     if (inst === 'kick') {
@@ -395,9 +975,54 @@ function App() {
     } else if (inst === 'hihat') {
       if (param === 'decay') AudioEngine.setHiHatDecay(val);
       if (param === 'tone') AudioEngine.setHiHatTone(val);
+    } else if (inst === 'openhat') {
+      if (param === 'decay') AudioEngine.setOpenHatDecay(val);
+      if (param === 'tone') AudioEngine.setOpenHatTone(val);
     } else if (inst === 'clap') {
       if (param === 'decay') AudioEngine.setClapDecay(val);
       if (param === 'tone') AudioEngine.setClapTone(val);
+    } else if (inst === 'lowtom' || inst === 'midtom' || inst === 'hightom') {
+      if (param === 'tune') AudioEngine.setTomTune(inst, val);
+      if (param === 'decay') AudioEngine.setTomDecay(inst, val);
+    } else if (inst === 'rimshot') {
+      if (param === 'tune') AudioEngine.setRimshotTune(val);
+      if (param === 'decay') AudioEngine.setRimshotDecay(val);
+    } else if (inst === 'cowbell') {
+      if (param === 'tune') AudioEngine.setCowbellTune(val);
+      if (param === 'decay') AudioEngine.setCowbellDecay(val);
+    } else if (inst === 'ride') {
+      if (param === 'decay') AudioEngine.setRideDecay(val);
+      if (param === 'tone') AudioEngine.setRideTone(val);
+    } else if (inst === 'crash') {
+      if (param === 'decay') AudioEngine.setCrashDecay(val);
+      if (param === 'tone') AudioEngine.setCrashTone(val);
+    } else if (inst === 'sampler') {
+      if (param === 'start') AudioEngine.setSamplerStart(val);
+      if (param === 'end') AudioEngine.setSamplerEnd(val);
+      if (param === 'pitch') AudioEngine.setSamplerPitch(val);
+      if (param === 'reverse') AudioEngine.setSamplerReverse(val);
+      if (param === 'attack') AudioEngine.setSamplerAttack(val);
+      if (param === 'release') AudioEngine.setSamplerRelease(val);
+    } else if (inst === 'slicer') {
+      if (param === 'pitch') AudioEngine.setSlicerPitch(val);
+      if (param === 'attack') AudioEngine.setSlicerAttack(val);
+      if (param === 'release') AudioEngine.setSlicerRelease(val);
+    } else if (inst === 'kick909') {
+      if (param === 'tune') AudioEngine.setKick909Tune(val);
+      if (param === 'sweep') AudioEngine.setKick909Sweep(val);
+      if (param === 'decay') AudioEngine.setKick909Decay(val);
+      if (param === 'click') AudioEngine.setKick909Click(val);
+    } else if (inst === 'snare909') {
+      if (param === 'tune') AudioEngine.setSnare909Tune(val);
+      if (param === 'tone') AudioEngine.setSnare909Tone(val);
+      if (param === 'snappy') AudioEngine.setSnare909Snappy(val);
+      if (param === 'decay') AudioEngine.setSnare909Decay(val);
+    } else if (inst === 'hihat909') {
+      if (param === 'decay') AudioEngine.setHiHat909Decay(val);
+      if (param === 'tone') AudioEngine.setHiHat909Tone(val);
+    } else if (inst === 'clap909') {
+      if (param === 'decay') AudioEngine.setClap909Decay(val);
+      if (param === 'tone') AudioEngine.setClap909Tone(val);
     } else if (inst === 'bass') {
       if (param === 'cutoff') AudioEngine.setBassCutoff(val);
       if (param === 'resonance') AudioEngine.setBassResonance(val);
@@ -416,9 +1041,91 @@ function App() {
       if (param === 'release') AudioEngine.setPolyRelease(val);
       if (param === 'filter') AudioEngine.setPolyFilter(val);
       if (param === 'detune') AudioEngine.setPolyDetune(val);
+    } else if (inst === 'fm') {
+      const opParam = param.match(/^op(\d)(\w+)$/);
+      if (param === 'algorithm') AudioEngine.setFMAlgorithm(val);
+      if (param === 'operators') AudioEngine.setFMOperators(val);
+      if (opParam) AudioEngine.setFMOperatorParam(Number(opParam[1]), opParam[2] as FMOperatorParam, val);
     }
   }, []);
 
+  /* Sampler & Slicer Handlers */
+  const handleSamplerPitchChange = useCallback((stepIndex: number, val: number) => {
+    const newPitches = [...samplerPitches];
+    newPitches[stepIndex] = Math.max(-MAX_SAMPLE_PITCH, Math.min(MAX_SAMPLE_PITCH, val));
+    setSamplerPitches(newPitches);
+    AudioEngine.updateSamplerPitches(newPitches);
+  }, [samplerPitches]);
+
+  const handleSamplerPitchWheel = useCallback((e: WheelEvent, stepIndex: number) => {
+    handleSamplerPitchChange(stepIndex, samplerPitches[stepIndex] + (e.deltaY > 0 ? -1 : 1));
+  }, [samplerPitches, handleSamplerPitchChange]);
+
+  /**
+   * Decode a dropped or picked audio file, then keep it in IndexedDB and hand it to `onLoaded`.
+   * Decoding first means a file the browser can't read is never stored.
+   */
+  const readSampleFile = useCallback((file: File, onLoaded: (ref: SampleRef) => void) => {
+    const ref: SampleRef = { id: createSampleId(), name: file.name };
+    file.arrayBuffer()
+      .then(data => AudioEngine.loadSample(ref.id, data).then(() => saveSample({ ...ref, data })))
+      .then(() => {
+        markSampleDecoded(ref.id);
+        onLoaded(ref);
+      })
+      .catch(error => {
+        console.error('Failed to load sample:', error);
+        alert(`Could not load ${file.name}. Use a WAV, AIFF or MP3 file.`);
+      });
+  }, [markSampleDecoded]);
+
+  const openSampleFile = useCallback((onFile: (file: File) => void) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = SAMPLE_FILE_TYPES;
+    input.onchange = (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (file) onFile(file);
+    };
+    input.click();
+  }, []);
+
+  const handleSampleFile = useCallback((file: File) => {
+    readSampleFile(file, ref => {
+      setSample(ref);
+      AudioEngine.updateSample(ref.id);
+    });
+  }, [readSampleFile]);
+
+  const handleSampleOpen = useCallback(() => openSampleFile(handleSampleFile), [openSampleFile, handleSampleFile]);
+
+  const handleSlicerFile = useCallback((file: File) => {
+    readSampleFile(file, ref => {
+      setSlicerSample(ref);
+      AudioEngine.updateSlicerSample(ref.id);
+    });
+  }, [readSampleFile]);
+
+  const handleSlicerOpen = useCallback(() => openSampleFile(handleSlicerFile), [openSampleFile, handleSlicerFile]);
+
+  const handleSlicingChange = useCallback((mode: SliceMode, count: number) => {
+    const clampedCount = Math.max(1, Math.min(MAX_SLICES, count));
+    setSlicerMode(mode);
+    setSlicerCount(clampedCount);
+    AudioEngine.updateSlicing(mode, clampedCount);
+  }, []);
+
+  const handleSliceChange = useCallback((stepIndex: number, val: number) => {
+    const newSlices = [...slicerSlices];
+    newSlices[stepIndex] = Math.max(0, Math.min(slicerCount - 1, val));
+    setSlicerSlices(newSlices);
+    AudioEngine.updateSlicerSlices(newSlices);
+  }, [slicerSlices, slicerCount]);
+
+  const handleSliceWheel = useCallback((e: WheelEvent, stepIndex: number) => {
+    handleSliceChange(stepIndex, slicerSlices[stepIndex] + (e.deltaY > 0 ? -1 : 1));
+  }, [slicerSlices, handleSliceChange]);
+
   /* Per-step Pad Pitches & Voicings Handlers (State moved to top) */
   const handlePadPitchChange = useCallback((stepIndex: number, val: number) => {
     const clampedVal = Math.max(36, Math.min(72, val));
@@ -441,6 +1148,25 @@ function App() {
      AudioEngine.updatePadVoicings(newVoicings);
   }, [padVoicings]);
 
+  const handlePadInversionChange = useCallback((stepIndex: number, inversion: number) => {
+    const newInversions = [...padInversions];
+    newInversions[stepIndex] = inversion;
+    setPadInversions(newInversions);
+    AudioEngine.updatePadInversions(newInversions);
+  }, [padInversions]);
+
+  const handlePadChordStyleChange = useCallback((spread: ChordSpread, voiceLeading: boolean) => {
+    setPadSpread(spread);
+    setPadVoiceLeading(voiceLeading);
+    AudioEngine.updatePadChordStyle(spread, voiceLeading);
+  }, []);
+
+  const handleArpChange = useCallback((inst: ArpInstrument, arp: ArpSettings) => {
+    const newArps = { ...arps, [inst]: arp };
+    setArps(newArps);
+    AudioEngine.updateArps(newArps);
+  }, [arps]);
+
 
 
   // Handler for pro mode parameter changes
@@ -506,11 +1232,29 @@ function App() {
       name: scenes[activeSceneIndex].name,
       grid,
       bassPitches,
+      bassAccents,
+      bassSlides,
       padPitches,
       padVoicings,
+      padInversions,
+      padSpread,
+      padVoiceLeading,
+      arps,
       polyNotes,
+      fmNotes,
+      gates,
+      trackLengths,
+      trackResolutions,
+      patternLength,
+      stepGrouping,
       volumes,
       velocities,
+      probabilities,
+      conditions,
+      nudges,
+      ratchets,
+      ratchetRamps,
+      paramLocks,
       reverbSends,
       delaySends,
       eqGains,
@@ -519,6 +1263,16 @@ function App() {
       solos,
       bpm,
       swing,
+      groove,
+      trackGrooves,
+      trackSwing,
+      chokeGroups,
+      sample,
+      samplerPitches,
+      slicerSample,
+      slicerMode,
+      slicerCount,
+      slicerSlices,
     };
 
     // Only save if the current state is different from what's in the scenes array
@@ -532,20 +1286,62 @@ function App() {
       setScenes(newScenes);
       saveScenes(newScenes);
     }
-  }, [activeSceneIndex, grid, bassPitches, padPitches, padVoicings, polyNotes, volumes, velocities, reverbSends, delaySends, eqGains, params, mutes, solos, bpm, swing]);
+  }, [activeSceneIndex, grid, bassPitches, bassAccents, bassSlides, padPitches, padVoicings, padInversions, padSpread, padVoiceLeading, arps, polyNotes, fmNotes, gates, trackLengths, trackResolutions, patternLength, stepGrouping, volumes, velocities, probabilities, conditions, nudges, ratchets, ratchetRamps, paramLocks, reverbSends, delaySends, eqGains, params, mutes, solos, bpm, swing, groove, trackGrooves, trackSwing, chokeGroups, sample, samplerPitches, slicerSample, slicerMode, slicerCount, slicerSlices]);
+
+  // Decode every sample the scene bank uses from IndexedDB, so scene changes and song mode find it ready
+  const requestedSamples = useRef(new Set<string>());
+  useEffect(() => {
+    scenes.flatMap(scene => [scene.sample, scene.slicerSample]).forEach(ref => {
+      if (!ref || requestedSamples.current.has(ref.id)) return;
+      requestedSamples.current.add(ref.id);
+      loadSample(ref.id)
+        .then(stored => {
+          if (stored) return AudioEngine.loadSample(ref.id, stored.data).then(() => markSampleDecoded(ref.id));
+          console.warn(`Sample "${ref.name}" is not stored in this browser`);
+        })
+        .catch(error => console.error('Failed to load sample:', error));
+    });
+  }, [scenes, markSampleDecoded]);
 
   // Persist pro mode params globally
   useEffect(() => {
     saveProModeParams(proModeParams);
   }, [proModeParams]);
 
+  // The engine reads scene data directly when the song moves to the next entry
+  useEffect(() => {
+    AudioEngine.updateScenes(scenes);
+  }, [scenes]);
+
+  useEffect(() => {
+    AudioEngine.updateSong(song);
+    saveSong(song);
+  }, [song]);
+
+  useEffect(() => {
+    AudioEngine.updateGrooves(userGrooves);
+    saveGrooves(userGrooves);
+  }, [userGrooves]);
+
   // Scene Management Handlers
-  const loadSceneState = useCallback((scene: Scene) => {
+  const loadSceneState = useCallback((scene: Scene, syncEngine: boolean = true) => {
     setGrid(scene.grid);
     setBassPitches(scene.bassPitches);
+    setBassAccents(scene.bassAccents);
+    setBassSlides(scene.bassSlides);
     setPadPitches(scene.padPitches);
     setPadVoicings(scene.padVoicings);
-    setPolyNotes(scene.polyNotes || new Array(16).fill([]));
+    setPadInversions(scene.padInversions);
+    setPadSpread(scene.padSpread);
+    setPadVoiceLeading(scene.padVoiceLeading);
+    setArps(scene.arps);
+    setPolyNotes(scene.polyNotes || new Array(MAX_STEPS).fill([]));
+    setFmNotes(scene.fmNotes || new Array(MAX_STEPS).fill([]));
+    setGates(scene.gates);
+    setTrackLengths(scene.trackLengths);
+    setTrackResolutions(scene.trackResolutions);
+    setPatternLength(scene.patternLength);
+    setStepGrouping(scene.stepGrouping);
     setVolumes(scene.volumes);
     setReverbSends(scene.reverbSends);
     setDelaySends(scene.delaySends);
@@ -555,82 +1351,102 @@ function App() {
     setSolos(scene.solos);
     setBpm(scene.bpm);
     setSwing(scene.swing);
+    setGroove(scene.groove);
+    setTrackGrooves(scene.trackGrooves);
+    setTrackSwing(scene.trackSwing);
+    setChokeGroups(scene.chokeGroups);
+    setSample(scene.sample);
+    setSamplerPitches(scene.samplerPitches);
+    setSlicerSample(scene.slicerSample);
+    setSlicerMode(scene.slicerMode);
+    setSlicerCount(scene.slicerCount);
+    setSlicerSlices(scene.slicerSlices);
 
     const safeVelocities = scene.velocities || (() => {
        const v: any = {};
-       const insts: Instrument[] = ['kick', 'snare', 'hihat', 'clap', 'bass', 'pad', 'poly', 'kick909', 'snare909', 'hihat909', 'clap909'];
-       insts.forEach(i => v[i] = new Array(16).fill(100));
+       const insts: Instrument[] = ['kick', 'snare', 'hihat', 'openhat', 'clap', 'lowtom', 'midtom', 'hightom', 'rimshot', 'cowbell', 'ride', 'crash', 'sampler', 'slicer', 'bass', 'pad', 'poly', 'fm', 'kick909', 'snare909', 'hihat909', 'clap909'];
+       insts.forEach(i => v[i] = new Array(MAX_STEPS).fill(100));
        return v;
     })();
     setVelocities(safeVelocities);
+    setProbabilities(scene.probabilities);
+    setConditions(scene.conditions);
+    setNudges(scene.nudges);
+    setRatchets(scene.ratchets);
+    setRatchetRamps(scene.ratchetRamps);
+    setParamLocks(scene.paramLocks);
+    setHeldStep(null);
+
+
+
+    // Sync to audio engine (skipped when the engine already switched, e.g. in song mode)
+    if (syncEngine) {
+      AudioEngine.loadScene({
+        ...scene,
+        polyNotes: scene.polyNotes || new Array(MAX_STEPS).fill([]),
+        fmNotes: scene.fmNotes || new Array(MAX_STEPS).fill([]),
+        params: scene.params || INITIAL_PARAMS,
+        velocities: safeVelocities
+      });
+    }
+  }, []);
 
-
-
-    // Sync to audio engine
-    AudioEngine.setBpm(scene.bpm);
-    AudioEngine.updateGrid(scene.grid);
-    AudioEngine.updateBassPitches(scene.bassPitches);
-    AudioEngine.updatePadPitches(scene.padPitches);
-    AudioEngine.updatePadVoicings(scene.padVoicings);
-    AudioEngine.updatePolyNotes(scene.polyNotes || new Array(16).fill([]));
-    AudioEngine.setSwing(scene.swing);
-    AudioEngine.updateVelocities(safeVelocities);
-
-    (Object.keys(scene.mutes) as Instrument[]).forEach(inst => {
-      AudioEngine.setMute(inst, scene.mutes[inst]);
-      AudioEngine.setSolo(inst, scene.solos[inst]);
-      AudioEngine.setVolume(inst, scene.volumes[inst]);
-      AudioEngine.setReverbSend(inst, scene.reverbSends[inst]);
-      AudioEngine.setDelaySend(inst, scene.delaySends[inst]);
-
-      const eq = scene.eqGains[inst];
-      AudioEngine.setChannelEQ(inst, 'low', eq.low);
-      AudioEngine.setChannelEQ(inst, 'mid', eq.mid);
-
-      AudioEngine.setChannelEQ(inst, 'high', eq.high);
+  // Song playback: the engine has already switched scenes at the boundary, so only the UI follows
+  useEffect(() => {
+    AudioEngine.onSongPosition((entryIndex, repeat, sceneIndex) => {
+      setSongPosition({ entryIndex, repeat });
+      if (activeSceneIndexRef.current !== sceneIndex) {
+        loadSceneState(scenesRef.current[sceneIndex], false);
+        setActiveSceneIndex(sceneIndex);
+      }
     });
+    AudioEngine.onSongEnd(() => {
+      setIsPlaying(false);
+      setSongPosition(null);
+      setQueuedSceneIndex(null);
+      AudioEngine.togglePlay(false);
+    });
+  }, [loadSceneState]);
 
-    const p = scene.params || INITIAL_PARAMS;
-    AudioEngine.setKickPitchDecay(p.kick.tune);
-    AudioEngine.setKickDecay(p.kick.decay);
-    AudioEngine.setKickDistortion(p.kick.distortion || 0);
-    AudioEngine.setSnareTone(p.snare.tone);
-    AudioEngine.setSnareDecay(p.snare.snappy);
-    AudioEngine.setHiHatDecay(p.hihat.decay);
-    AudioEngine.setHiHatTone(p.hihat.tone);
-    AudioEngine.setClapDecay(p.clap.decay);
-    AudioEngine.setClapTone(p.clap.tone);
-    AudioEngine.setBassCutoff(p.bass.cutoff);
-    AudioEngine.setBassResonance(p.bass.resonance);
-    AudioEngine.setBassEnvMod(p.bass.envMod);
-    AudioEngine.setBassDecay(p.bass.decay);
-    AudioEngine.setPadAttack(p.pad.attack);
-    AudioEngine.setPadRelease(p.pad.release);
-    AudioEngine.setPadFilterCutoff(p.pad.cutoff);
-    AudioEngine.setPadDetune(p.pad.detune);
-    AudioEngine.setPadDistortion(p.pad.distortion);
-
-    // Poly Params
-    const polyP = p.poly || INITIAL_PARAMS.poly;
-    AudioEngine.setPolyAttack(polyP.attack);
-    AudioEngine.setPolyDecay(polyP.decay);
-    AudioEngine.setPolySustain(polyP.sustain);
-    AudioEngine.setPolyRelease(polyP.release);
-    AudioEngine.setPolyFilter(polyP.filter);
-    AudioEngine.setPolyDetune(polyP.detune);
-    AudioEngine.setPolyOscillator(polyP.oscillator || 'square');
-    
-    AudioEngine.setKickDistortion(p.kick.distortion || 0);
-
+  const handleSongModeChange = useCallback((enabled: boolean) => {
+    setSongMode(enabled);
+    AudioEngine.setSongMode(enabled);
+    if (!enabled) setSongPosition(null);
+  }, []);
 
+  useEffect(() => {
+    AudioEngine.onCountIn(setCountInBeat);
+    AudioEngine.onPosition(setTransportPosition);
   }, []);
 
+  // Queued launches: the engine switches at the boundary, the UI follows when it lands
+  useEffect(() => {
+    AudioEngine.onSceneLaunch((sceneIndex) => {
+      setQueuedSceneIndex(null);
+      loadSceneState(scenesRef.current[sceneIndex], false);
+      setActiveSceneIndex(sceneIndex);
+    });
+  }, [loadSceneState]);
+
   const handleSceneSelect = useCallback((index: number) => {
-    if (index === activeSceneIndex) return;
+    if (index === activeSceneIndex) {
+      // Re-selecting the playing scene cancels a pending launch
+      if (queuedSceneIndex !== null) {
+        AudioEngine.cancelQueuedScene();
+        setQueuedSceneIndex(null);
+      }
+      return;
+    }
+
+    if (isPlaying) {
+      AudioEngine.queueScene(index, launchQuantize);
+      setQueuedSceneIndex(index);
+      return;
+    }
 
     loadSceneState(scenes[index]);
     setActiveSceneIndex(index);
-  }, [activeSceneIndex, scenes, loadSceneState]);
+  }, [activeSceneIndex, queuedSceneIndex, isPlaying, launchQuantize, scenes, loadSceneState]);
 
   const handleSceneCopy = useCallback((index: number) => {
     setCopiedScene(scenes[index]);
@@ -670,8 +1486,19 @@ function App() {
   }, [scenes, activeSceneIndex]);
 
   const handleExportAll = useCallback(() => {
-    downloadProject(scenes, proModeParams);
-  }, [scenes, proModeParams]);
+    // Embed the audio of every sample the scenes use, so the project opens in any browser
+    const ids = [...new Set(scenes.flatMap(s => [s.sample?.id, s.slicerSample?.id]).filter((id): id is string => !!id))];
+    Promise.all(ids.map(id => loadSample(id)))
+      .then(stored => {
+        const samples = stored.filter((s): s is StoredSample => s !== null).map(embedSample);
+        downloadProject(scenes, proModeParams, song, userGrooves, samples);
+      })
+      .catch(error => {
+        console.error('Failed to read samples:', error);
+        alert('Samples could not be read; the project was exported without them.');
+        downloadProject(scenes, proModeParams, song, userGrooves);
+      });
+  }, [scenes, proModeParams, song, userGrooves]);
 
   const handleRandomizeActiveScene = useCallback(() => {
     const instruments: Instrument[] = ['kick', 'snare', 'hihat', 'clap', 'bass', 'pad'];
@@ -679,19 +1506,18 @@ function App() {
     const newBassPitches = [...bassPitches];
     const newPadPitches = [...padPitches];
     const newPadVoicings = [...padVoicings];
-    const PAD_VOICING_OPTIONS = ['single', 'octave', 'fifth', 'major', 'minor', 'sus2', 'sus4'];
 
     instruments.forEach(inst => {
       const density = inst === 'kick' ? 0.3 : inst === 'snare' ? 0.2 : 0.4;
-      newGrid[inst] = new Array(16).fill(false).map(() => Math.random() < density);
+      newGrid[inst] = fitSteps(randomizeTrack(inst, density, trackLengths[inst], stepGrouping), false);
     });
 
     // Randomize bass and pad steps
-    for (let i = 0; i < 16; i++) {
+    for (let i = 0; i < MAX_STEPS; i++) {
         if (newGrid.bass[i]) newBassPitches[i] = Math.floor(Math.random() * 24) + 24; // C1 to C3
         if (newGrid.pad[i]) {
             newPadPitches[i] = Math.floor(Math.random() * 24) + 36; // C2 to C4
-            newPadVoicings[i] = PAD_VOICING_OPTIONS[Math.floor(Math.random() * PAD_VOICING_OPTIONS.length)];
+            newPadVoicings[i] = CHORD_TYPES[Math.floor(Math.random() * CHORD_TYPES.length)];
         }
     }
 
@@ -705,7 +1531,7 @@ function App() {
     AudioEngine.updateBassPitches(newBassPitches);
     AudioEngine.updatePadPitches(newPadPitches);
     AudioEngine.updatePadVoicings(newPadVoicings);
-  }, [grid, bassPitches, padPitches, padVoicings]);
+  }, [grid, bassPitches, padPitches, padVoicings, trackLengths, stepGrouping]);
 
   const handleImport = useCallback(() => {
     const input = document.createElement('input');
@@ -744,8 +1570,18 @@ function App() {
     input.click();
   }, [scenes, activeSceneIndex, loadSceneState]);
 
-  const handleConfirmImport = useCallback((selectedIndices: number[], importProSettings: boolean) => {
+  const handleConfirmImport = useCallback((selectedIndices: number[], importProSettings: boolean, importSongArrangement: boolean, importGrooves: boolean) => {
     if (!pendingImport) return;
+
+    // Keep the audio of imported samples; the scenes only reference them by id
+    pendingImport.samples?.forEach(embedded => {
+      const stored = extractSample(embedded);
+      requestedSamples.current.add(stored.id);
+      AudioEngine.loadSample(stored.id, stored.data)
+        .then(() => markSampleDecoded(stored.id))
+        .catch(error => console.error('Failed to load sample:', error));
+      saveSample(stored).catch(error => console.error('Failed to store sample:', error));
+    });
     
     // Import scenes
     const newScenes = [...scenes];
@@ -763,42 +1599,19 @@ function App() {
       setProModeParams(newProParams);
       saveProModeParams(newProParams);
 
-      // Sync to AudioEngine
-      AudioEngine.setMasterVolume(newProParams.masterVolume);
-      AudioEngine.setMasterCompressorThreshold(newProParams.masterCompressor.threshold);
-      AudioEngine.setMasterCompressorRatio(newProParams.masterCompressor.ratio);
-      AudioEngine.setMasterCompressorAttack(newProParams.masterCompressor.attack);
-      AudioEngine.setMasterCompressorRelease(newProParams.masterCompressor.release);
-      AudioEngine.setMasterCompressorBypass(newProParams.masterCompressor.bypass);
-      
-      AudioEngine.setTapeBypass(newProParams.tapeChain.bypass);
-      AudioEngine.setTapeCompressorThreshold(newProParams.tapeChain.compThreshold);
-      AudioEngine.setTapeCompressorRatio(newProParams.tapeChain.compRatio);
-      AudioEngine.setTapeCompressorAttack(newProParams.tapeChain.compAttack);
-      AudioEngine.setTapeCompressorRelease(newProParams.tapeChain.compRelease);
-      AudioEngine.setTapeDistortion(newProParams.tapeChain.distortion);
-      AudioEngine.setTapeFilterCutoff(newProParams.tapeChain.filterCutoff);
-      
-      AudioEngine.setReverbBypass(newProParams.reverb.bypass);
-      AudioEngine.setReverbDecay(newProParams.reverb.decay);
-      AudioEngine.setReverbPreDelay(newProParams.reverb.preDelay);
-      AudioEngine.setReverbToneFilter(newProParams.reverb.toneFilter);
-      AudioEngine.setReverbPreFilter(newProParams.reverb.preFilter);
-      AudioEngine.setReverbPostFilter(newProParams.reverb.postFilter);
-      
-      AudioEngine.setDelayBypass(newProParams.delay.bypass);
-      AudioEngine.setDelayTime(newProParams.delay.time);
-      AudioEngine.setDelayFeedback(newProParams.delay.feedback);
-      AudioEngine.setDelayPreFilter(newProParams.delay.preFilter);
-      AudioEngine.setDelayPostFilter(newProParams.delay.postFilter);
-
-      if (newProParams.trackEnabled) {
-          Object.entries(newProParams.trackEnabled).forEach(([inst, enabled]) => {
-            AudioEngine.setTrackEnabled(inst as Instrument, enabled);
-          });
-      }
+      syncProModeParams(newProParams);
     }
     
+    if (importSongArrangement && pendingImport.song) {
+      setSong(pendingImport.song);
+    }
+
+    // Imported grooves replace local ones with the same id
+    if (importGrooves && pendingImport.grooves) {
+      const incoming = pendingImport.grooves;
+      setUserGrooves(prev => [...prev.filter(g => !incoming.some(i => i.id === g.id)), ...incoming]);
+    }
+
     // If active scene was imported, reload it
     if (selectedIndices.includes(activeSceneIndex)) {
       loadSceneState(newScenes[activeSceneIndex]);
@@ -806,28 +1619,159 @@ function App() {
     
     setShowImportModal(false);
     setPendingImport(null);
-  }, [pendingImport, scenes, activeSceneIndex, loadSceneState]);
+  }, [pendingImport, scenes, activeSceneIndex, loadSceneState, markSampleDecoded]);
 
   const handleCancelImport = useCallback(() => {
     setShowImportModal(false);
     setPendingImport(null);
   }, []);
 
+  // -- Live Recording --
+  // Early hits land on a step the playhead hasn't reached yet ("inst:step"); replace mode keeps them on arrival
+  const pendingHits = useRef(new Set<string>());
+  // Tracks played since record was armed: the ones replace mode clears as the playhead passes
+  const recordedTracks = useRef(new Set<Instrument>());
+  const lastTrackStepsRef = useRef(trackSteps);
+
+  const recordBaseNote = RECORD_BASE_NOTES[recordKeysTarget] + recordOctave * 12;
+
+  const handleRecordArm = useCallback((armed: boolean) => {
+    setRecordArmed(armed);
+    pendingHits.current.clear();
+    recordedTracks.current.clear();
+  }, []);
+
+  const handleRecordOctave = useCallback((delta: number) => {
+    setRecordOctave(prev => Math.max(-2, Math.min(2, prev + delta)));
+  }, []);
+
+  /**
+   * Play a hit and, when armed and running, write it to the nearest step of the track.
+   * Quantize strength below 100% keeps the rest of the played timing as the step's nudge.
+   */
+  const handleLiveHit = useCallback((inst: Instrument, velocity: number, note?: number) => {
+    AudioEngine.playLive(inst, velocity / 127, note);
+    if (!recordArmed) return;
+    const position = AudioEngine.getRecordPosition(inst);
+    if (!position) return;
+    const { step, offset } = position;
+
+    const key = `${inst}:${step}`;
+    const early = offset < 0;
+    const firstHit = early ? !pendingHits.current.has(key) : !gridRef.current[inst][step];
+    if (early) pendingHits.current.add(key);
+    recordedTracks.current.add(inst);
+
+    const nudge = Math.max(-MAX_NUDGE, Math.min(MAX_NUDGE, Math.round(offset * (100 - recordQuantize) / 100)));
+    setGrid(prev => {
+        const newRow = [...prev[inst]];
+        newRow[step] = true;
+        const newGrid = { ...prev, [inst]: newRow };
+        AudioEngine.updateGrid(newGrid);
+        return newGrid;
+    });
+    setVelocities(prev => {
+        const newRow = [...prev[inst]];
+        newRow[step] = velocity;
+        const next = { ...prev, [inst]: newRow };
+        AudioEngine.updateVelocities(next);
+        return next;
+    });
+    setNudges(prev => {
+        const newRow = [...prev[inst]];
+        newRow[step] = nudge;
+        const next = { ...prev, [inst]: newRow };
+        AudioEngine.updateNudges(next);
+        return next;
+    });
+
+    if (note === undefined) return;
+    if (inst === 'bass') {
+      setBassPitches(prev => {
+          const next = [...prev];
+          next[step] = note;
+          AudioEngine.updateBassPitches(next);
+          return next;
+      });
+    } else if (inst === 'poly') {
+      setPolyNotes(prev => {
+          // Replace takes over the step's notes on its first hit; further hits on the step build a chord
+          const current = prev[step] || [];
+          const notes = recordMode === 'replace' && firstHit ? [note] : current.includes(note) ? current : [...current, note];
+          const next = [...prev];
+          next[step] = notes;
+          AudioEngine.updatePolyNotes(next);
+          return next;
+      });
+    }
+  }, [recordArmed, recordMode, recordQuantize]);
+
+  const handleRecordNote = useCallback((semitone: number, velocity: number) => {
+    const [low, high] = RECORD_NOTE_RANGES[recordKeysTarget];
+    handleLiveHit(recordKeysTarget, velocity, Math.max(low, Math.min(high, recordBaseNote + semitone)));
+  }, [recordKeysTarget, recordBaseNote, handleLiveHit]);
+
+  const recordKeyHandlers = useMemo(() => ({
+    onPad: (inst: Instrument, accent: boolean) => handleLiveHit(inst, accent ? RECORD_ACCENT_VELOCITY : RECORD_VELOCITY),
+    onNote: (semitone: number, accent: boolean) => handleRecordNote(semitone, accent ? RECORD_ACCENT_VELOCITY : RECORD_VELOCITY),
+    onOctave: handleRecordOctave,
+  }), [handleLiveHit, handleRecordNote, handleRecordOctave]);
+
+  useRecordKeys(recordKeyHandlers, recordArmed);
+
+  // Replace mode: steps the playhead enters on recorded tracks are cleared, unless an early hit is waiting for them
+  useEffect(() => {
+    const last = lastTrackStepsRef.current;
+    lastTrackStepsRef.current = trackSteps;
+    if (!isPlaying || !recordArmed || recordMode !== 'replace' || recordedTracks.current.size === 0) return;
+
+    const cleared: Partial<Record<Instrument, number[]>> = {};
+    recordedTracks.current.forEach(inst => {
+      const length = trackLengths[inst];
+      // Several steps can pass between renders on fast tracks, so walk every one entered
+      for (let step = last[inst], n = 0; step !== trackSteps[inst] && n < length; n++) {
+        step = (step + 1) % length;
+        const key = `${inst}:${step}`;
+        if (pendingHits.current.has(key)) {
+          pendingHits.current.delete(key);
+        } else {
+          (cleared[inst] ??= []).push(step);
+        }
+      }
+    });
+    if (Object.keys(cleared).length === 0) return;
+
+    setGrid(prev => {
+        const newGrid = { ...prev };
+        (Object.keys(cleared) as Instrument[]).forEach(inst => {
+          const newRow = [...prev[inst]];
+          cleared[inst]!.forEach(step => { newRow[step] = false; });
+          newGrid[inst] = newRow;
+        });
+        AudioEngine.updateGrid(newGrid);
+        return newGrid;
+    });
+  }, [trackSteps, isPlaying, recordArmed, recordMode, trackLengths]);
+
+  // -- Undo History --
+  const handleHistoryRestore = useCallback((snapshot: HistorySnapshot) => {
+    setScenes(snapshot.scenes);
+    saveScenes(snapshot.scenes);
+    loadSceneState(snapshot.scenes[activeSceneIndexRef.current]);
+    setProModeParams(snapshot.proModeParams);
+    syncProModeParams(snapshot.proModeParams);
+  }, [loadSceneState]);
+
+  const history = useHistory({ scenes, proModeParams }, handleHistoryRestore);
+
   // Keyboard shortcuts
   const instruments: Instrument[] = ['kick', 'snare', 'hihat', 'clap', 'bass', 'pad', 'poly'];
 
   useKeyboardShortcuts({
     onPlayPause: handleStart,
-    onBpmIncrease: () => {
-      const newBpm = Math.min(175, bpm + 5);
-      setBpm(newBpm);
-      AudioEngine.setBpm(newBpm);
-    },
-    onBpmDecrease: () => {
-      const newBpm = Math.max(65, bpm - 5);
-      setBpm(newBpm);
-      AudioEngine.setBpm(newBpm);
-    },
+    onBpmIncrease: (fine) => handleBpmChange(bpm + (fine ? 0.1 : 1)),
+    onBpmDecrease: (fine) => handleBpmChange(bpm - (fine ? 0.1 : 1)),
+    onTapTempo: handleTapTempo,
     onSceneSelect: handleSceneSelect,
     onSolo: (index) => {
       if (index < instruments.length) {
@@ -841,12 +1785,36 @@ function App() {
     },
     onSave: () => saveScenes(scenes),
     onExport: handleExport,
+    onUndo: history.undo,
+    onRedo: history.redo,
     onHelp: () => setShowShortcutHelp(true),
   }, true);
 
 
 
+  // -- Paging --
+  // While following, the visible page is whichever one the shared playhead is on
+  const pageCount = patternLength / STEPS_PER_PAGE;
+  const visiblePage = Math.min(
+    isPlaying && followPlayhead ? Math.floor(currentStep / STEPS_PER_PAGE) : page,
+    pageCount - 1
+  );
+  const stepGroups = useMemo(
+    () => getStepGroups(visiblePage * STEPS_PER_PAGE, (visiblePage + 1) * STEPS_PER_PAGE, stepGrouping),
+    [visiblePage, stepGrouping]
+  );
+
   /* Poly Note Handlers */
+  const handleGateChange = useCallback((inst: GatedInstrument, stepIndex: number, gate: number) => {
+    setGates(prev => {
+      const newRow = [...prev[inst]];
+      newRow[stepIndex] = gate;
+      const newGates = { ...prev, [inst]: newRow };
+      AudioEngine.updateGates(newGates);
+      return newGates;
+    });
+  }, []);
+
   const handlePolyNotesChange = useCallback((stepIndex: number, notes: number[]) => {
     setPolyNotes(prev => {
         const newNotes = [...prev];
@@ -869,206 +1837,600 @@ function App() {
     });
   }, []);
 
+  const handleFmNotesChange = useCallback((stepIndex: number, notes: number[]) => {
+    setFmNotes(prev => {
+        const newNotes = [...prev];
+        newNotes[stepIndex] = notes;
+        AudioEngine.updateFmNotes(newNotes);
+        return newNotes;
+    });
+
+    // Auto-enable step in sequencer grid if notes are added
+    setGrid(prev => {
+        if (notes.length > 0 && !prev.fm[stepIndex]) {
+            const newRow = [...prev.fm];
+            newRow[stepIndex] = true;
+            const newGrid = { ...prev, fm: newRow };
+            AudioEngine.updateGrid(newGrid);
+            return newGrid;
+        }
+        return prev;
+    });
+  }, []);
+
   // -- MEMOIZED CHILD COMPONENTS --
   // Kick
   const kickControls = useMemo(() => (
     <>
       <div className="param-item">
         <label>Tune</label>
-        <ScrollableSlider min={0.01} max={0.3} step={0.01} value={params.kick.tune} onChange={e => handleParamChange('kick', 'tune', Number(e.target.value))} />
+        <ScrollableSlider min={0.01} max={0.3} step={0.01} value={shownParams.kick.tune} onChange={e => handleParamChange('kick', 'tune', Number(e.target.value))} />
       </div>
       <div className="param-item">
         <label>Decay</label>
-        <ScrollableSlider min={0.1} max={2.0} step={0.1} value={params.kick.decay} onChange={e => handleParamChange('kick', 'decay', Number(e.target.value))} />
+        <ScrollableSlider min={0.1} max={2.0} step={0.1} value={shownParams.kick.decay} onChange={e => handleParamChange('kick', 'decay', Number(e.target.value))} />
       </div>
       <div className="param-item">
         <label>Dist</label>
-        <ScrollableSlider min={0} max={0.6} step={0.01} value={params.kick.distortion || 0} onChange={e => handleParamChange('kick', 'distortion', Number(e.target.value))} />
+        <ScrollableSlider min={0} max={0.6} step={0.01} value={shownParams.kick.distortion || 0} onChange={e => handleParamChange('kick', 'distortion', Number(e.target.value))} />
       </div>
     </>
-  ), [params.kick, handleParamChange]);
-
-  const kickSteps = useMemo(() => (
-    <div className="steps-container">
-    {[0, 1, 2, 3].map(groupIdx => (
-        <div key={groupIdx} className="step-group">
-        {[0, 1, 2, 3].map(stepInGroup => {
-            const stepIndex = groupIdx * 4 + stepInGroup;
-            const isActive = grid.kick[stepIndex];
-            const stepVel = velocities.kick[stepIndex];
-            return (
-            <Step
-                key={stepIndex}
-                isActive={isActive}
-                isCurrent={currentStep === stepIndex && isPlaying}
-                velocity={stepVel}
-                onMouseDown={() => handleStepMouseDown('kick', stepIndex)}
-                onMouseEnter={() => handleStepMouseEnter('kick', stepIndex)}
-                onWheel={(e) => handleVelocityWheel(e, 'kick', stepIndex)}
-            />
-            );
-        })}
-        </div>
-    ))}
-    </div>
-  ), [grid.kick, velocities.kick, currentStep, isPlaying, handleStepMouseDown, handleStepMouseEnter, handleVelocityWheel]);
+  ), [shownParams.kick, handleParamChange]);
 
   // Snare
   const snareControls = useMemo(() => (
     <>
       <div className="param-item">
         <label>Tone</label>
-        <ScrollableSlider min={400} max={6000} step={100} value={params.snare.tone} onChange={e => handleParamChange('snare', 'tone', Number(e.target.value))} />
+        <ScrollableSlider min={400} max={6000} step={100} value={shownParams.snare.tone} onChange={e => handleParamChange('snare', 'tone', Number(e.target.value))} />
       </div>
       <div className="param-item">
         <label>Snappy</label>
-        <ScrollableSlider min={0.05} max={0.5} step={0.01} value={params.snare.snappy} onChange={e => handleParamChange('snare', 'snappy', Number(e.target.value))} />
+        <ScrollableSlider min={0.05} max={0.5} step={0.01} value={shownParams.snare.snappy} onChange={e => handleParamChange('snare', 'snappy', Number(e.target.value))} />
       </div>
     </>
-  ), [params.snare, handleParamChange]);
-
-  const snareSteps = useMemo(() => (
-    <div className="steps-container">
-    {[0, 1, 2, 3].map(groupIdx => (
-        <div key={groupIdx} className="step-group">
-        {[0, 1, 2, 3].map(stepInGroup => {
-            const stepIndex = groupIdx * 4 + stepInGroup;
-            const isActive = grid.snare[stepIndex];
-            const stepVel = velocities.snare[stepIndex];
-            return (
-            <Step
-                key={stepIndex}
-                isActive={isActive}
-                isCurrent={currentStep === stepIndex && isPlaying}
-                velocity={stepVel}
-                onMouseDown={() => handleStepMouseDown('snare', stepIndex)}
-                onMouseEnter={() => handleStepMouseEnter('snare', stepIndex)}
-                onWheel={(e) => handleVelocityWheel(e, 'snare', stepIndex)}
-            />
-            );
-        })}
-        </div>
-    ))}
-    </div>
-  ), [grid.snare, velocities.snare, currentStep, isPlaying, handleStepMouseDown, handleStepMouseEnter, handleVelocityWheel]);
+  ), [shownParams.snare, handleParamChange]);
 
   // Hihat
   const hihatControls = useMemo(() => (
     <>
         <div className="param-item">
         <label>Decay</label>
-        <ScrollableSlider min={0.05} max={1.0} step={0.01} value={params.hihat.decay} onChange={e => handleParamChange('hihat', 'decay', Number(e.target.value))} />
+        <ScrollableSlider min={0.05} max={1.0} step={0.01} value={shownParams.hihat.decay} onChange={e => handleParamChange('hihat', 'decay', Number(e.target.value))} />
         </div>
         <div className="param-item">
         <label>Tone</label>
-        <ScrollableSlider min={500} max={10000} step={100} value={params.hihat.tone} onChange={e => handleParamChange('hihat', 'tone', Number(e.target.value))} />
+        <ScrollableSlider min={500} max={10000} step={100} value={shownParams.hihat.tone} onChange={e => handleParamChange('hihat', 'tone', Number(e.target.value))} />
         </div>
     </>
-  ), [params.hihat, handleParamChange]);
+  ), [shownParams.hihat, handleParamChange]);
 
-  const hihatSteps = useMemo(() => (
-    <div className="steps-container">
-    {[0, 1, 2, 3].map(groupIdx => (
-        <div key={groupIdx} className="step-group">
-        {[0, 1, 2, 3].map(stepInGroup => {
-            const stepIndex = groupIdx * 4 + stepInGroup;
-            const isActive = grid.hihat[stepIndex];
-            const stepVel = velocities.hihat[stepIndex];
-            return (
-            <Step
-                key={stepIndex}
-                isActive={isActive}
-                isCurrent={currentStep === stepIndex && isPlaying}
-                velocity={stepVel}
-                onMouseDown={() => handleStepMouseDown('hihat', stepIndex)}
-                onMouseEnter={() => handleStepMouseEnter('hihat', stepIndex)}
-                onWheel={(e) => handleVelocityWheel(e, 'hihat', stepIndex)}
-            />
-            );
-        })}
-        </div>
-    ))}
-    </div>
-  ), [grid.hihat, velocities.hihat, currentStep, isPlaying, handleStepMouseDown, handleStepMouseEnter, handleVelocityWheel]);
-  
-  // Clap
-  const clapControls = useMemo(() => (
+  // Open Hihat
+  const openhatControls = useMemo(() => (
     <>
         <div className="param-item">
         <label>Decay</label>
-        <ScrollableSlider min={0.01} max={0.5} step={0.01} value={params.clap.decay} onChange={e => handleParamChange('clap', 'decay', Number(e.target.value))} />
+        <ScrollableSlider min={0.1} max={2.0} step={0.01} value={shownParams.openhat.decay} onChange={e => handleParamChange('openhat', 'decay', Number(e.target.value))} />
         </div>
         <div className="param-item">
         <label>Tone</label>
-        <ScrollableSlider min={500} max={4000} step={100} value={params.clap.tone} onChange={e => handleParamChange('clap', 'tone', Number(e.target.value))} />
+        <ScrollableSlider min={500} max={10000} step={100} value={shownParams.openhat.tone} onChange={e => handleParamChange('openhat', 'tone', Number(e.target.value))} />
         </div>
     </>
-  ), [params.clap, handleParamChange]);
+  ), [shownParams.openhat, handleParamChange]);
 
-  const clapSteps = useMemo(() => (
-    <div className="steps-container">
-    {[0, 1, 2, 3].map(groupIdx => (
-        <div key={groupIdx} className="step-group">
-        {[0, 1, 2, 3].map(stepInGroup => {
-            const stepIndex = groupIdx * 4 + stepInGroup;
-            const isActive = grid.clap[stepIndex];
-            const stepVel = velocities.clap[stepIndex];
+  // Clap
+  const clapControls = useMemo(() => (
+    <>
+        <div className="param-item">
+        <label>Decay</label>
+        <ScrollableSlider min={0.01} max={0.5} step={0.01} value={shownParams.clap.decay} onChange={e => handleParamChange('clap', 'decay', Number(e.target.value))} />
+        </div>
+        <div className="param-item">
+        <label>Tone</label>
+        <ScrollableSlider min={500} max={4000} step={100} value={shownParams.clap.tone} onChange={e => handleParamChange('clap', 'tone', Number(e.target.value))} />
+        </div>
+    </>
+  ), [shownParams.clap, handleParamChange]);
+
+  // Low Tom
+  const lowtomControls = useMemo(() => (
+    <>
+        <div className="param-item">
+        <label>Tune</label>
+        <ScrollableSlider min={50} max={200} step={1} value={shownParams.lowtom.tune} onChange={e => handleParamChange('lowtom', 'tune', Number(e.target.value))} />
+        </div>
+        <div className="param-item">
+        <label>Decay</label>
+        <ScrollableSlider min={0.1} max={1.5} step={0.01} value={shownParams.lowtom.decay} onChange={e => handleParamChange('lowtom', 'decay', Number(e.target.value))} />
+        </div>
+    </>
+  ), [shownParams.lowtom, handleParamChange]);
+
+  // Mid Tom
+  const midtomControls = useMemo(() => (
+    <>
+        <div className="param-item">
+        <label>Tune</label>
+        <ScrollableSlider min={80} max={300} step={1} value={shownParams.midtom.tune} onChange={e => handleParamChange('midtom', 'tune', Number(e.target.value))} />
+        </div>
+        <div className="param-item">
+        <label>Decay</label>
+        <ScrollableSlider min={0.1} max={1.5} step={0.01} value={shownParams.midtom.decay} onChange={e => handleParamChange('midtom', 'decay', Number(e.target.value))} />
+        </div>
+    </>
+  ), [shownParams.midtom, handleParamChange]);
+
+  // High Tom
+  const hightomControls = useMemo(() => (
+    <>
+        <div className="param-item">
+        <label>Tune</label>
+        <ScrollableSlider min={120} max={400} step={1} value={shownParams.hightom.tune} onChange={e => handleParamChange('hightom', 'tune', Number(e.target.value))} />
+        </div>
+        <div className="param-item">
+        <label>Decay</label>
+        <ScrollableSlider min={0.1} max={1.5} step={0.01} value={shownParams.hightom.decay} onChange={e => handleParamChange('hightom', 'decay', Number(e.target.value))} />
+        </div>
+    </>
+  ), [shownParams.hightom, handleParamChange]);
+
+  // Rimshot
+  const rimshotControls = useMemo(() => (
+    <>
+        <div className="param-item">
+        <label>Tune</label>
+        <ScrollableSlider min={200} max={1000} step={5} value={shownParams.rimshot.tune} onChange={e => handleParamChange('rimshot', 'tune', Number(e.target.value))} />
+        </div>
+        <div className="param-item">
+        <label>Decay</label>
+        <ScrollableSlider min={0.01} max={0.2} step={0.005} value={shownParams.rimshot.decay} onChange={e => handleParamChange('rimshot', 'decay', Number(e.target.value))} />
+        </div>
+    </>
+  ), [shownParams.rimshot, handleParamChange]);
+
+  // Cowbell
+  const cowbellControls = useMemo(() => (
+    <>
+        <div className="param-item">
+        <label>Tune</label>
+        <ScrollableSlider min={300} max={1000} step={5} value={shownParams.cowbell.tune} onChange={e => handleParamChange('cowbell', 'tune', Number(e.target.value))} />
+        </div>
+        <div className="param-item">
+        <label>Decay</label>
+        <ScrollableSlider min={0.05} max={1.0} step={0.01} value={shownParams.cowbell.decay} onChange={e => handleParamChange('cowbell', 'decay', Number(e.target.value))} />
+        </div>
+    </>
+  ), [shownParams.cowbell, handleParamChange]);
+
+  // Ride
+  const rideControls = useMemo(() => (
+    <>
+        <div className="param-item">
+        <label>Decay</label>
+        <ScrollableSlider min={0.3} max={4} step={0.05} value={shownParams.ride.decay} onChange={e => handleParamChange('ride', 'decay', Number(e.target.value))} />
+        </div>
+        <div className="param-item">
+        <label>Tone</label>
+        <ScrollableSlider min={1000} max={12000} step={100} value={shownParams.ride.tone} onChange={e => handleParamChange('ride', 'tone', Number(e.target.value))} />
+        </div>
+    </>
+  ), [shownParams.ride, handleParamChange]);
+
+  // Crash
+  const crashControls = useMemo(() => (
+    <>
+        <div className="param-item">
+        <label>Decay</label>
+        <ScrollableSlider min={0.5} max={5} step={0.05} value={shownParams.crash.decay} onChange={e => handleParamChange('crash', 'decay', Number(e.target.value))} />
+        </div>
+        <div className="param-item">
+        <label>Tone</label>
+        <ScrollableSlider min={1000} max={12000} step={100} value={shownParams.crash.tone} onChange={e => handleParamChange('crash', 'tone', Number(e.target.value))} />
+        </div>
+    </>
+  ), [shownParams.crash, handleParamChange]);
+
+  // Sampler
+  const samplerControls = useMemo(() => (
+    <>
+        <div className="param-item">
+        <label>Sample</label>
+        <button
+            className="sampler-btn"
+            onClick={handleSampleOpen}
+            title={`${sample ? sample.name : 'No sample'}: click to load, or drop a WAV, AIFF or MP3 on the track`}
+        >
+            {sample ? sample.name : 'Load…'}
+        </button>
+        </div>
+        <div className="param-item">
+        <label>Start</label>
+        <ScrollableSlider min={0} max={1} step={0.01} value={shownParams.sampler.start} onChange={e => handleParamChange('sampler', 'start', Number(e.target.value))} />
+        </div>
+        <div className="param-item">
+        <label>End</label>
+        <ScrollableSlider min={0} max={1} step={0.01} value={shownParams.sampler.end} onChange={e => handleParamChange('sampler', 'end', Number(e.target.value))} />
+        </div>
+        <div className="param-item">
+        <label>Pitch</label>
+        <ScrollableSlider min={-MAX_SAMPLE_PITCH} max={MAX_SAMPLE_PITCH} step={1} value={shownParams.sampler.pitch} onChange={e => handleParamChange('sampler', 'pitch', Number(e.target.value))} />
+        </div>
+        <div className="param-item">
+        <label>Attack</label>
+        <ScrollableSlider min={0.001} max={0.5} step={0.001} value={shownParams.sampler.attack} onChange={e => handleParamChange('sampler', 'attack', Number(e.target.value))} />
+        </div>
+        <div className="param-item">
+        <label>Release</label>
+        <ScrollableSlider min={0.01} max={2} step={0.01} value={shownParams.sampler.release} onChange={e => handleParamChange('sampler', 'release', Number(e.target.value))} />
+        </div>
+        <div className="param-item">
+        <label>Reverse</label>
+        <button
+            className={`sampler-btn ${shownParams.sampler.reverse >= 0.5 ? 'active' : ''}`}
+            onClick={() => handleParamChange('sampler', 'reverse', shownParams.sampler.reverse >= 0.5 ? 0 : 1)}
+        >
+            REV
+        </button>
+        </div>
+    </>
+  ), [shownParams.sampler, sample, handleParamChange, handleSampleOpen]);
+
+  const samplerSteps = useMemo(() => (
+    <div className="sampler-steps-container">
+    {stepGroups.map(group => (
+        <div key={group[0]} className="step-group sampler-group">
+        {group.map(stepIndex => {
+            const isActive = grid.sampler[stepIndex];
+            const stepVel = velocities.sampler[stepIndex];
             return (
-            <Step
-                key={stepIndex}
+            <div key={stepIndex} className="sampler-step-wrapper">
+                <Step
                 isActive={isActive}
-                isCurrent={currentStep === stepIndex && isPlaying}
+                isCurrent={trackSteps.sampler === stepIndex && isPlaying}
+                isDisabled={stepIndex >= trackLengths.sampler}
                 velocity={stepVel}
-                onMouseDown={() => handleStepMouseDown('clap', stepIndex)}
-                onMouseEnter={() => handleStepMouseEnter('clap', stepIndex)}
-                onWheel={(e) => handleVelocityWheel(e, 'clap', stepIndex)}
-            />
+                probability={probabilities.sampler[stepIndex]}
+                condition={conditions.sampler[stepIndex]}
+                nudge={nudges.sampler[stepIndex]}
+                ratchets={ratchets.sampler[stepIndex]}
+                ratchetRamp={ratchetRamps.sampler[stepIndex]}
+                isLocked={lockedSteps.sampler?.[stepIndex]}
+                isHeld={heldStep?.inst === 'sampler' && heldStep.step === stepIndex}
+                onMouseDown={() => handleStepMouseDown('sampler', stepIndex)}
+                onMouseEnter={() => handleStepMouseEnter('sampler', stepIndex)}
+                onWheel={(e) => handleStepWheel(e, 'sampler', stepIndex)}
+                onContextMenu={(e) => handleRatchetCycle(e, 'sampler', stepIndex)}
+                onHold={() => handleStepHold('sampler', stepIndex)}
+                />
+                <ScrollableSelect
+                className="note-select"
+                value={samplerPitches[stepIndex]}
+                onChange={(e) => handleSamplerPitchChange(stepIndex, Number(e.target.value))}
+                onWheel={(e) => handleSamplerPitchWheel(e, stepIndex)}
+                title="Step pitch (semitones)"
+                >
+                {Array.from({ length: MAX_SAMPLE_PITCH * 2 + 1 }, (_, i) => {
+                    const semitones = MAX_SAMPLE_PITCH - i;
+                    return <option key={semitones} value={semitones}>{semitones > 0 ? `+${semitones}` : semitones}</option>;
+                })}
+                </ScrollableSelect>
+            </div>
+            );
+        })}
+        </div>
+    ))}
+    </div>
+  ), [grid.sampler, velocities.sampler, probabilities.sampler, conditions.sampler, nudges.sampler, ratchets.sampler, ratchetRamps.sampler, lockedSteps.sampler, heldStep, trackSteps.sampler, trackLengths.sampler, isPlaying, stepGroups, samplerPitches, handleStepMouseDown, handleStepMouseEnter, handleStepWheel, handleRatchetCycle, handleStepHold, handleSamplerPitchChange, handleSamplerPitchWheel]);
+
+  // Slicer
+  const slicerControls = useMemo(() => (
+    <>
+        <div className="param-item">
+        <label>Sample</label>
+        <button
+            className="sampler-btn"
+            onClick={handleSlicerOpen}
+            title={`${slicerSample ? slicerSample.name : 'No sample'}: click to load, or drop a WAV, AIFF or MP3 on the track`}
+        >
+            {slicerSample ? slicerSample.name : 'Load…'}
+        </button>
+        </div>
+        <div className="param-item">
+        <label>Slice</label>
+        <ScrollableSelect
+            className="note-select"
+            value={slicerMode}
+            onChange={e => handleSlicingChange(e.target.value as SliceMode, slicerCount)}
+            title="Cut into equal slices, or at the strongest transients"
+        >
+            {SLICE_MODES.map(mode => (
+            <option key={mode} value={mode}>{mode === 'equal' ? 'Equal' : 'Transients'}</option>
+            ))}
+        </ScrollableSelect>
+        </div>
+        <div className="param-item">
+        <label>Slices</label>
+        <ScrollableSelect
+            className="note-select"
+            value={slicerCount}
+            onChange={e => handleSlicingChange(slicerMode, Number(e.target.value))}
+            onWheel={e => handleSlicingChange(slicerMode, slicerCount + (e.deltaY > 0 ? -1 : 1))}
+        >
+            {Array.from({ length: MAX_SLICES }, (_, i) => (
+            <option key={i + 1} value={i + 1}>{i + 1}</option>
+            ))}
+        </ScrollableSelect>
+        </div>
+        <div className="param-item">
+        <label>Pitch</label>
+        <ScrollableSlider min={-MAX_SAMPLE_PITCH} max={MAX_SAMPLE_PITCH} step={1} value={shownParams.slicer.pitch} onChange={e => handleParamChange('slicer', 'pitch', Number(e.target.value))} />
+        </div>
+        <div className="param-item">
+        <label>Attack</label>
+        <ScrollableSlider min={0.001} max={0.5} step={0.001} value={shownParams.slicer.attack} onChange={e => handleParamChange('slicer', 'attack', Number(e.target.value))} />
+        </div>
+        <div className="param-item">
+        <label>Release</label>
+        <ScrollableSlider min={0.005} max={1} step={0.005} value={shownParams.slicer.release} onChange={e => handleParamChange('slicer', 'release', Number(e.target.value))} />
+        </div>
+    </>
+  ), [shownParams.slicer, slicerSample, slicerMode, slicerCount, handleParamChange, handleSlicerOpen, handleSlicingChange]);
+
+  const slicerPeaks = useMemo(() => (
+    slicerSample && decodedSampleIds.has(slicerSample.id) ? AudioEngine.getWaveform(slicerSample.id, 512) : null
+  ), [slicerSample, decodedSampleIds]);
+
+  const slicePoints = useMemo(() => (
+    slicerSample && decodedSampleIds.has(slicerSample.id) ? AudioEngine.getSlicePoints(slicerSample.id, slicerMode, slicerCount) ?? [] : []
+  ), [slicerSample, slicerMode, slicerCount, decodedSampleIds]);
+
+  // Highlight the slice the playhead is on, while that step plays
+  const activeSlice = isPlaying && grid.slicer[trackSteps.slicer] && slicePoints.length > 0
+    ? slicerSlices[trackSteps.slicer] % slicePoints.length
+    : null;
+
+  const slicerSteps = useMemo(() => (
+    <div className="slicer-steps">
+    <SliceWaveform peaks={slicerPeaks} points={slicePoints} activeSlice={activeSlice} />
+    <div className="sampler-steps-container">
+    {stepGroups.map(group => (
+        <div key={group[0]} className="step-group sampler-group">
+        {group.map(stepIndex => {
+            const isActive = grid.slicer[stepIndex];
+            const stepVel = velocities.slicer[stepIndex];
+            return (
+            <div key={stepIndex} className="sampler-step-wrapper">
+                <Step
+                isActive={isActive}
+                isCurrent={trackSteps.slicer === stepIndex && isPlaying}
+                isDisabled={stepIndex >= trackLengths.slicer}
+                velocity={stepVel}
+                probability={probabilities.slicer[stepIndex]}
+                condition={conditions.slicer[stepIndex]}
+                nudge={nudges.slicer[stepIndex]}
+                ratchets={ratchets.slicer[stepIndex]}
+                ratchetRamp={ratchetRamps.slicer[stepIndex]}
+                isLocked={lockedSteps.slicer?.[stepIndex]}
+                isHeld={heldStep?.inst === 'slicer' && heldStep.step === stepIndex}
+                onMouseDown={() => handleStepMouseDown('slicer', stepIndex)}
+                onMouseEnter={() => handleStepMouseEnter('slicer', stepIndex)}
+                onWheel={(e) => handleStepWheel(e, 'slicer', stepIndex)}
+                onContextMenu={(e) => handleRatchetCycle(e, 'slicer', stepIndex)}
+                onHold={() => handleStepHold('slicer', stepIndex)}
+                />
+                <ScrollableSelect
+                className="note-select"
+                value={Math.min(slicerSlices[stepIndex], slicerCount - 1)}
+                onChange={(e) => handleSliceChange(stepIndex, Number(e.target.value))}
+                onWheel={(e) => handleSliceWheel(e, stepIndex)}
+                title="Slice"
+                >
+                {Array.from({ length: slicerCount }, (_, i) => (
+                    <option key={i} value={i}>{i + 1}</option>
+                ))}
+                </ScrollableSelect>
+            </div>
             );
         })}
         </div>
     ))}
     </div>
-  ), [grid.clap, velocities.clap, currentStep, isPlaying, handleStepMouseDown, handleStepMouseEnter, handleVelocityWheel]);
+    </div>
+  ), [grid.slicer, velocities.slicer, probabilities.slicer, conditions.slicer, nudges.slicer, ratchets.slicer, ratchetRamps.slicer, lockedSteps.slicer, heldStep, trackSteps.slicer, trackLengths.slicer, isPlaying, stepGroups, slicerSlices, slicerCount, slicerPeaks, slicePoints, activeSlice, handleStepMouseDown, handleStepMouseEnter, handleStepWheel, handleRatchetCycle, handleStepHold, handleSliceChange, handleSliceWheel]);
+
+  // 909 Kick
+  const kick909Controls = useMemo(() => (
+    <>
+      <div className="param-item">
+        <label>Tune</label>
+        <ScrollableSlider min={40} max={80} step={1} value={shownParams.kick909.tune} onChange={e => handleParamChange('kick909', 'tune', Number(e.target.value))} />
+      </div>
+      <div className="param-item">
+        <label>Sweep</label>
+        <ScrollableSlider min={0.01} max={0.15} step={0.01} value={shownParams.kick909.sweep} onChange={e => handleParamChange('kick909', 'sweep', Number(e.target.value))} />
+      </div>
+      <div className="param-item">
+        <label>Decay</label>
+        <ScrollableSlider min={0.1} max={1.5} step={0.05} value={shownParams.kick909.decay} onChange={e => handleParamChange('kick909', 'decay', Number(e.target.value))} />
+      </div>
+      <div className="param-item">
+        <label>Click</label>
+        <ScrollableSlider min={0} max={1} step={0.05} value={shownParams.kick909.click} onChange={e => handleParamChange('kick909', 'click', Number(e.target.value))} />
+      </div>
+    </>
+  ), [shownParams.kick909, handleParamChange]);
+
+  // 909 Snare
+  const snare909Controls = useMemo(() => (
+    <>
+      <div className="param-item">
+        <label>Tune</label>
+        <ScrollableSlider min={120} max={300} step={5} value={shownParams.snare909.tune} onChange={e => handleParamChange('snare909', 'tune', Number(e.target.value))} />
+      </div>
+      <div className="param-item">
+        <label>Tone</label>
+        <ScrollableSlider min={2000} max={12000} step={100} value={shownParams.snare909.tone} onChange={e => handleParamChange('snare909', 'tone', Number(e.target.value))} />
+      </div>
+      <div className="param-item">
+        <label>Snappy</label>
+        <ScrollableSlider min={0} max={1} step={0.05} value={shownParams.snare909.snappy} onChange={e => handleParamChange('snare909', 'snappy', Number(e.target.value))} />
+      </div>
+      <div className="param-item">
+        <label>Decay</label>
+        <ScrollableSlider min={0.05} max={0.6} step={0.01} value={shownParams.snare909.decay} onChange={e => handleParamChange('snare909', 'decay', Number(e.target.value))} />
+      </div>
+    </>
+  ), [shownParams.snare909, handleParamChange]);
+
+  // 909 HiHat
+  const hihat909Controls = useMemo(() => (
+    <>
+      <div className="param-item">
+        <label>Decay</label>
+        <ScrollableSlider min={0.02} max={0.5} step={0.01} value={shownParams.hihat909.decay} onChange={e => handleParamChange('hihat909', 'decay', Number(e.target.value))} />
+      </div>
+      <div className="param-item">
+        <label>Tone</label>
+        <ScrollableSlider min={3000} max={12000} step={100} value={shownParams.hihat909.tone} onChange={e => handleParamChange('hihat909', 'tone', Number(e.target.value))} />
+      </div>
+    </>
+  ), [shownParams.hihat909, handleParamChange]);
+
+  // 909 Clap
+  const clap909Controls = useMemo(() => (
+    <>
+      <div className="param-item">
+        <label>Decay</label>
+        <ScrollableSlider min={0.05} max={1.0} step={0.01} value={shownParams.clap909.decay} onChange={e => handleParamChange('clap909', 'decay', Number(e.target.value))} />
+      </div>
+      <div className="param-item">
+        <label>Tone</label>
+        <ScrollableSlider min={600} max={3000} step={50} value={shownParams.clap909.tone} onChange={e => handleParamChange('clap909', 'tone', Number(e.target.value))} />
+      </div>
+    </>
+  ), [shownParams.clap909, handleParamChange]);
+
+  // Step rows for the drum tracks, which differ only by instrument
+  const drumSteps = useMemo(() => Object.fromEntries([...KIT_TRACKS, ...KIT909_TRACKS].map(({ inst }) => [inst, (
+    <div className="steps-container">
+    {stepGroups.map(group => (
+        <div key={group[0]} className="step-group">
+        {group.map(stepIndex => (
+            <Step
+                key={stepIndex}
+                isActive={grid[inst][stepIndex]}
+                isCurrent={trackSteps[inst] === stepIndex && isPlaying}
+                isDisabled={stepIndex >= trackLengths[inst]}
+                velocity={velocities[inst][stepIndex]}
+                probability={probabilities[inst][stepIndex]}
+                condition={conditions[inst][stepIndex]}
+                nudge={nudges[inst][stepIndex]}
+                ratchets={ratchets[inst][stepIndex]}
+                ratchetRamp={ratchetRamps[inst][stepIndex]}
+                isLocked={lockedSteps[inst]?.[stepIndex]}
+                isHeld={heldStep?.inst === inst && heldStep.step === stepIndex}
+                onMouseDown={() => handleStepMouseDown(inst, stepIndex)}
+                onMouseEnter={() => handleStepMouseEnter(inst, stepIndex)}
+                onWheel={(e) => handleStepWheel(e, inst, stepIndex)}
+                onContextMenu={(e) => handleRatchetCycle(e, inst, stepIndex)}
+                onHold={() => handleStepHold(inst, stepIndex)}
+            />
+        ))}
+        </div>
+    ))}
+    </div>
+  )])) as Partial<Record<Instrument, ReactNode>>, [grid, velocities, probabilities, conditions, nudges, ratchets, ratchetRamps, lockedSteps, heldStep, trackSteps, trackLengths, isPlaying, stepGroups, handleStepMouseDown, handleStepMouseEnter, handleStepWheel, handleRatchetCycle, handleStepHold]);
+
+  const drumControls: Partial<Record<Instrument, ReactNode>> = {
+    kick: kickControls, snare: snareControls, hihat: hihatControls, openhat: openhatControls, clap: clapControls,
+    lowtom: lowtomControls, midtom: midtomControls, hightom: hightomControls,
+    rimshot: rimshotControls, cowbell: cowbellControls, ride: rideControls, crash: crashControls,
+    kick909: kick909Controls, snare909: snare909Controls, hihat909: hihat909Controls, clap909: clap909Controls,
+  };
+
+  const renderDrumTrack = ({ inst, label }: DrumTrack) => (proModeParams.trackEnabled?.[inst] ?? true) && (
+    <TrackRow
+      key={inst}
+      label={label}
+      instrument={inst}
+      mute={mutes[inst]}
+      solo={solos[inst]}
+      volume={volumes[inst]}
+      reverbSend={reverbSends[inst]}
+      delaySend={delaySends[inst]}
+      eq={eqGains[inst]}
+      length={trackLengths[inst]}
+      resolution={trackResolutions[inst]}
+      groove={trackGrooves[inst]}
+      swing={trackSwing[inst]}
+      chokeGroup={chokeGroups[inst]}
+      grooves={allGrooves}
+      onMute={handleMute}
+      onSolo={handleSolo}
+      onVolumeChange={handleVolumeChange}
+      onReverbSendChange={handleReverbSendChange}
+      onDelaySendChange={handleDelaySendChange}
+      onEQChange={handleEQChange}
+      onLengthChange={handleTrackLengthChange}
+      onResolutionChange={handleTrackResolutionChange}
+      onGrooveChange={handleTrackGrooveChange}
+      onSwingChange={handleTrackSwingChange}
+      onChokeGroupChange={handleChokeGroupChange}
+      extraControls={drumControls[inst]}
+    >
+      {drumSteps[inst]}
+    </TrackRow>
+  );
 
   // Bass
   const bassControls = useMemo(() => (
     <>
       <div className="param-item">
         <label>Cutoff</label>
-        <ScrollableSlider min={50} max={5000} step={10} value={params.bass.cutoff} onChange={e => handleParamChange('bass', 'cutoff', Number(e.target.value))} />
+        <ScrollableSlider min={50} max={5000} step={10} value={shownParams.bass.cutoff} onChange={e => handleParamChange('bass', 'cutoff', Number(e.target.value))} />
       </div>
       <div className="param-item">
         <label>Res</label>
-        <ScrollableSlider min={0} max={20} step={0.1} value={params.bass.resonance} onChange={e => handleParamChange('bass', 'resonance', Number(e.target.value))} />
+        <ScrollableSlider min={0} max={20} step={0.1} value={shownParams.bass.resonance} onChange={e => handleParamChange('bass', 'resonance', Number(e.target.value))} />
       </div>
       <div className="param-item">
         <label>Env Mod</label>
-        <ScrollableSlider min={0} max={8} step={0.1} value={params.bass.envMod} onChange={e => handleParamChange('bass', 'envMod', Number(e.target.value))} />
+        <ScrollableSlider min={0} max={8} step={0.1} value={shownParams.bass.envMod} onChange={e => handleParamChange('bass', 'envMod', Number(e.target.value))} />
       </div>
       <div className="param-item">
         <label>Decay</label>
-        <ScrollableSlider min={0.1} max={2.0} step={0.1} value={params.bass.decay} onChange={e => handleParamChange('bass', 'decay', Number(e.target.value))} />
+        <ScrollableSlider min={0.1} max={2.0} step={0.1} value={shownParams.bass.decay} onChange={e => handleParamChange('bass', 'decay', Number(e.target.value))} />
       </div>
     </>
-  ), [params.bass, handleParamChange]);
+  ), [shownParams.bass, handleParamChange]);
 
   const bassSteps = useMemo(() => (
     <div className="bass-steps-container">
-    {[0, 1, 2, 3].map(groupIdx => (
-        <div key={groupIdx} className="step-group bass-group">
-        {[0, 1, 2, 3].map(stepInGroup => {
-            const stepIndex = groupIdx * 4 + stepInGroup;
+    {stepGroups.map(group => (
+        <div key={group[0]} className="step-group bass-group">
+        {group.map(stepIndex => {
             const isActive = grid.bass[stepIndex];
             const stepVel = velocities.bass[stepIndex];
             return (
             <div key={stepIndex} className="bass-step-wrapper">
                 <Step
                 isActive={isActive}
-                isCurrent={currentStep === stepIndex && isPlaying}
+                isCurrent={trackSteps.bass === stepIndex && isPlaying}
+                isDisabled={stepIndex >= trackLengths.bass}
                 velocity={stepVel}
+                probability={probabilities.bass[stepIndex]}
+                condition={conditions.bass[stepIndex]}
+                nudge={nudges.bass[stepIndex]}
+                ratchets={ratchets.bass[stepIndex]}
+                ratchetRamp={ratchetRamps.bass[stepIndex]}
+                isLocked={lockedSteps.bass?.[stepIndex]}
+                isHeld={heldStep?.inst === 'bass' && heldStep.step === stepIndex}
                 onMouseDown={() => handleStepMouseDown('bass', stepIndex)}
                 onMouseEnter={() => handleStepMouseEnter('bass', stepIndex)}
-                onWheel={(e) => handleVelocityWheel(e, 'bass', stepIndex)}
+                onWheel={(e) => handleStepWheel(e, 'bass', stepIndex)}
+                onContextMenu={(e) => handleRatchetCycle(e, 'bass', stepIndex)}
+                onHold={() => handleStepHold('bass', stepIndex)}
                 />
                 <ScrollableSelect 
                 className="note-select"
@@ -1088,57 +2450,113 @@ function App() {
                 onChange={(val) => handleBassPitchChange(stepIndex, val)}
                 buttonsOnly
                 />
+                <ScrollableSelect
+                className="gate-select"
+                value={gates.bass[stepIndex]}
+                onChange={(e) => handleGateChange('bass', stepIndex, Number(e.target.value))}
+                title="Gate length (steps)"
+                >
+                {GATE_OPTIONS.map(g => <option key={g} value={g}>{formatGate(g)}</option>)}
+                </ScrollableSelect>
+                <div className="bass-flags">
+                <button
+                    className={`bass-flag-btn ${bassAccents[stepIndex] ? 'active' : ''}`}
+                    onClick={() => handleBassAccentToggle(stepIndex)}
+                    title="Accent"
+                >
+                    A
+                </button>
+                <button
+                    className={`bass-flag-btn ${bassSlides[stepIndex] ? 'active' : ''}`}
+                    onClick={() => handleBassSlideToggle(stepIndex)}
+                    title="Slide into the next note"
+                >
+                    S
+                </button>
+                </div>
             </div>
             );
         })}
         </div>
     ))}
     </div>
-  ), [grid.bass, velocities.bass, currentStep, isPlaying, bassPitches, handleStepMouseDown, handleStepMouseEnter, handleVelocityWheel, handleBassPitchChange, handleNoteWheel]);
+  ), [grid.bass, velocities.bass, probabilities.bass, conditions.bass, nudges.bass, ratchets.bass, ratchetRamps.bass, lockedSteps.bass, heldStep, trackSteps.bass, trackLengths.bass, isPlaying, stepGroups, bassPitches, bassAccents, bassSlides, handleStepMouseDown, handleStepMouseEnter, handleStepWheel, handleRatchetCycle, handleStepHold, handleBassPitchChange, handleNoteWheel, handleBassAccentToggle, handleBassSlideToggle, gates.bass, handleGateChange]);
 
   // Pad
   const padControls = useMemo(() => (
     <>
         <div className="param-item">
         <label>Attack</label>
-        <ScrollableSlider min={0.01} max={1.0} step={0.01} value={params.pad.attack} onChange={e => handleParamChange('pad', 'attack', Number(e.target.value))} />
+        <ScrollableSlider min={0.01} max={1.0} step={0.01} value={shownParams.pad.attack} onChange={e => handleParamChange('pad', 'attack', Number(e.target.value))} />
         </div>
         <div className="param-item">
         <label>Release</label>
-        <ScrollableSlider min={0.1} max={3.0} step={0.1} value={params.pad.release} onChange={e => handleParamChange('pad', 'release', Number(e.target.value))} />
+        <ScrollableSlider min={0.1} max={3.0} step={0.1} value={shownParams.pad.release} onChange={e => handleParamChange('pad', 'release', Number(e.target.value))} />
         </div>
         <div className="param-item">
         <label>Filter</label>
-        <ScrollableSlider min={100} max={8000} step={50} value={params.pad.cutoff} onChange={e => handleParamChange('pad', 'cutoff', Number(e.target.value))} />
+        <ScrollableSlider min={100} max={8000} step={50} value={shownParams.pad.cutoff} onChange={e => handleParamChange('pad', 'cutoff', Number(e.target.value))} />
         </div>
         <div className="param-item">
         <label>Detune</label>
-        <ScrollableSlider min={0} max={30} step={1} value={params.pad.detune} onChange={e => handleParamChange('pad', 'detune', Number(e.target.value))} />
+        <ScrollableSlider min={0} max={30} step={1} value={shownParams.pad.detune} onChange={e => handleParamChange('pad', 'detune', Number(e.target.value))} />
         </div>
         <div className="param-item">
         <label>Distortion</label>
-        <ScrollableSlider min={0} max={1} step={0.01} value={params.pad.distortion} onChange={e => handleParamChange('pad', 'distortion', Number(e.target.value))} />
+        <ScrollableSlider min={0} max={1} step={0.01} value={shownParams.pad.distortion} onChange={e => handleParamChange('pad', 'distortion', Number(e.target.value))} />
+        </div>
+        <div className="param-item">
+        <label>Spread</label>
+        <ScrollableSelect
+            className="note-select"
+            value={padSpread}
+            onChange={e => handlePadChordStyleChange(e.target.value as ChordSpread, padVoiceLeading)}
+        >
+            {CHORD_SPREADS.map(spread => (
+            <option key={spread} value={spread}>{spread === 'close' ? 'Close' : 'Drop 2'}</option>
+            ))}
+        </ScrollableSelect>
+        </div>
+        <div className="param-item">
+        <label>Voice Lead</label>
+        <button
+            className={`pad-option-btn ${padVoiceLeading ? 'active' : ''}`}
+            onClick={() => handlePadChordStyleChange(padSpread, !padVoiceLeading)}
+            title="Revoice each chord close to the one before it"
+        >
+            LEAD
+        </button>
         </div>
+        <ArpControls arp={arps.pad} onChange={arp => handleArpChange('pad', arp)} />
     </>
-  ), [params.pad, handleParamChange]);
+  ), [shownParams.pad, padSpread, padVoiceLeading, arps.pad, handleParamChange, handlePadChordStyleChange, handleArpChange]);
 
   const padSteps = useMemo(() => (
     <div className="pad-steps-container">
-    {[0, 1, 2, 3].map(groupIdx => (
-        <div key={groupIdx} className="step-group pad-group">
-        {[0, 1, 2, 3].map(stepInGroup => {
-            const stepIndex = groupIdx * 4 + stepInGroup;
+    {stepGroups.map(group => (
+        <div key={group[0]} className="step-group pad-group">
+        {group.map(stepIndex => {
             const isActive = grid.pad[stepIndex];
             const stepVel = velocities.pad[stepIndex];
             return (
             <div key={stepIndex} className="pad-step-wrapper">
                 <Step
                 isActive={isActive}
-                isCurrent={currentStep === stepIndex && isPlaying}
+                isCurrent={trackSteps.pad === stepIndex && isPlaying}
+                isDisabled={stepIndex >= trackLengths.pad}
                 velocity={stepVel}
+                probability={probabilities.pad[stepIndex]}
+                condition={conditions.pad[stepIndex]}
+                nudge={nudges.pad[stepIndex]}
+                ratchets={ratchets.pad[stepIndex]}
+                ratchetRamp={ratchetRamps.pad[stepIndex]}
+                isLocked={lockedSteps.pad?.[stepIndex]}
+                isHeld={heldStep?.inst === 'pad' && heldStep.step === stepIndex}
                 onMouseDown={() => handleStepMouseDown('pad', stepIndex)}
                 onMouseEnter={() => handleStepMouseEnter('pad', stepIndex)}
-                onWheel={(e) => handleVelocityWheel(e, 'pad', stepIndex)}
+                onWheel={(e) => handleStepWheel(e, 'pad', stepIndex)}
+                onContextMenu={(e) => handleRatchetCycle(e, 'pad', stepIndex)}
+                onHold={() => handleStepHold('pad', stepIndex)}
                 />
                 <ScrollableSelect 
                 className="note-select"
@@ -1156,10 +2574,29 @@ function App() {
                 value={padVoicings[stepIndex]}
                 onChange={(e) => handlePadVoicingChange(stepIndex, e.target.value)}
                 >
-                {PAD_VOICING_OPTIONS.map(v => (
+                {CHORD_TYPES.map(v => (
                     <option key={v} value={v}>{v}</option>
                 ))}
                 </ScrollableSelect>
+                <ScrollableSelect
+                className="voicing-select"
+                value={padInversions[stepIndex]}
+                onChange={(e) => handlePadInversionChange(stepIndex, Number(e.target.value))}
+                disabled={padVoiceLeading}
+                title={padVoiceLeading ? 'Inversion (voice leading picks it)' : 'Inversion'}
+                >
+                {INVERSION_LABELS.slice(0, MAX_INVERSION + 1).map((label, i) => (
+                    <option key={i} value={i}>{label}</option>
+                ))}
+                </ScrollableSelect>
+                <ScrollableSelect
+                className="gate-select"
+                value={gates.pad[stepIndex]}
+                onChange={(e) => handleGateChange('pad', stepIndex, Number(e.target.value))}
+                title="Gate length (steps)"
+                >
+                {GATE_OPTIONS.map(g => <option key={g} value={g}>{formatGate(g)}</option>)}
+                </ScrollableSelect>
                 <NoteStepper
                 midi={padPitches[stepIndex]}
                 min={36}
@@ -1173,7 +2610,7 @@ function App() {
         </div>
     ))}
     </div>
-  ), [grid.pad, velocities.pad, currentStep, isPlaying, padPitches, padVoicings, handleStepMouseDown, handleStepMouseEnter, handleVelocityWheel, handlePadPitchChange, handlePadNoteWheel, handlePadVoicingChange, PAD_VOICING_OPTIONS]);
+  ), [grid.pad, velocities.pad, probabilities.pad, conditions.pad, nudges.pad, ratchets.pad, ratchetRamps.pad, lockedSteps.pad, heldStep, trackSteps.pad, trackLengths.pad, isPlaying, stepGroups, padPitches, padVoicings, handleStepMouseDown, handleStepMouseEnter, handleStepWheel, handleRatchetCycle, handleStepHold, padInversions, padVoiceLeading, handlePadPitchChange, handlePadNoteWheel, handlePadVoicingChange, handlePadInversionChange, gates.pad, handleGateChange]);
 
   // Poly
   const polyControls = useMemo(() => (
@@ -1181,7 +2618,7 @@ function App() {
         <div className="param-item">
         <label>Wave</label>
         <ScrollableSelect 
-            value={params.poly.oscillator || 'square'} 
+            value={shownParams.poly.oscillator || 'square'} 
             onChange={(e) => {
                 const val = e.target.value as any;
                 handleParamChange('poly', 'oscillator', val);
@@ -1196,44 +2633,136 @@ function App() {
         </div>
         <div className="param-item">
         <label>Attack</label>
-        <ScrollableSlider min={0.01} max={1.0} step={0.01} value={params.poly.attack} onChange={e => handleParamChange('poly', 'attack', Number(e.target.value))} />
+        <ScrollableSlider min={0.01} max={1.0} step={0.01} value={shownParams.poly.attack} onChange={e => handleParamChange('poly', 'attack', Number(e.target.value))} />
         </div>
         <div className="param-item">
         <label>Decay</label>
-        <ScrollableSlider min={0.1} max={2.0} step={0.1} value={params.poly.decay} onChange={e => handleParamChange('poly', 'decay', Number(e.target.value))} />
+        <ScrollableSlider min={0.1} max={2.0} step={0.1} value={shownParams.poly.decay} onChange={e => handleParamChange('poly', 'decay', Number(e.target.value))} />
         </div>
         <div className="param-item">
         <label>Filter</label>
-        <ScrollableSlider min={100} max={5000} step={50} value={params.poly.filter} onChange={e => handleParamChange('poly', 'filter', Number(e.target.value))} />
+        <ScrollableSlider min={100} max={5000} step={50} value={shownParams.poly.filter} onChange={e => handleParamChange('poly', 'filter', Number(e.target.value))} />
         </div>
         <div className="param-item">
         <label>Sus</label>
-        <ScrollableSlider min={0} max={1} step={0.01} value={params.poly.sustain} onChange={e => handleParamChange('poly', 'sustain', Number(e.target.value))} />
+        <ScrollableSlider min={0} max={1} step={0.01} value={shownParams.poly.sustain} onChange={e => handleParamChange('poly', 'sustain', Number(e.target.value))} />
         </div>
         <div className="param-item">
         <label>Rel</label>
-        <ScrollableSlider min={0.1} max={3.0} step={0.1} value={params.poly.release} onChange={e => handleParamChange('poly', 'release', Number(e.target.value))} />
+        <ScrollableSlider min={0.1} max={3.0} step={0.1} value={shownParams.poly.release} onChange={e => handleParamChange('poly', 'release', Number(e.target.value))} />
         </div>
+        <ArpControls arp={arps.poly} onChange={arp => handleArpChange('poly', arp)} />
     </>
-  ), [params.poly, handleParamChange]);
+  ), [shownParams.poly, arps.poly, handleParamChange, handleArpChange]);
 
   const polySteps = useMemo(() => (
     <div style={{ padding: '4px 0' }}>
     <PianoRoll 
-        currentStep={isPlaying ? currentStep : -1}
+        currentStep={isPlaying ? trackSteps.poly : -1}
+        length={trackLengths.poly}
+        groups={stepGroups}
         steps={polyNotes}
+        gates={gates.poly}
         onChange={handlePolyNotesChange}
+        onGateChange={(stepIndex, gate) => handleGateChange('poly', stepIndex, gate)}
         minNote={48} // C3
         maxNote={84} // C6
     />
     </div>
-  ), [isPlaying, currentStep, polyNotes, handlePolyNotesChange]);
+  ), [isPlaying, trackSteps.poly, trackLengths.poly, stepGroups, polyNotes, gates.poly, handlePolyNotesChange, handleGateChange]);
+
+  // FM: one set of operator controls, for the operator picked in the Op select
+  const fmControls = useMemo(() => {
+    const fm = shownParams.fm;
+    const op = Math.min(fmEditOperator, fm.operators);
+    const key = (param: FMOperatorParam) => `op${op}${param}` as FMOperatorKey;
+    const target = FM_ALGORITHMS[fm.algorithm]?.modulates[op - 1];
+    const isCarrier = target === null || target === undefined || target >= fm.operators;
+    return (
+    <>
+        <div className="param-item">
+        <label>Ops</label>
+        <ScrollableSelect
+            className="note-select"
+            value={fm.operators}
+            onChange={e => handleParamChange('fm', 'operators', Number(e.target.value))}
+        >
+            {Array.from({ length: MAX_FM_OPERATORS - MIN_FM_OPERATORS + 1 }, (_, i) => MIN_FM_OPERATORS + i).map(count => (
+                <option key={count} value={count}>{count}</option>
+            ))}
+        </ScrollableSelect>
+        </div>
+        <div className="param-item">
+        <label>Algo</label>
+        <ScrollableSelect
+            className="note-select"
+            value={fm.algorithm}
+            onChange={e => handleParamChange('fm', 'algorithm', Number(e.target.value))}
+            style={{ width: '80px' }}
+        >
+            {FM_ALGORITHMS.map((algorithm, i) => (
+                <option key={algorithm.label} value={i}>{algorithm.label}</option>
+            ))}
+        </ScrollableSelect>
+        </div>
+        <div className="param-item">
+        <label>Op</label>
+        <ScrollableSelect className="note-select" value={op} onChange={e => setFmEditOperator(Number(e.target.value))}>
+            {Array.from({ length: fm.operators }, (_, i) => (
+                <option key={i + 1} value={i + 1}>{i + 1}</option>
+            ))}
+        </ScrollableSelect>
+        </div>
+        <div className="param-item">
+        <label>Ratio</label>
+        <ScrollableSlider min={0.5} max={16} step={0.5} value={fm[key('Ratio')]} onChange={e => handleParamChange('fm', key('Ratio'), Number(e.target.value))} />
+        </div>
+        <div className="param-item">
+        <label>{isCarrier ? 'Level' : 'Index'}</label>
+        <ScrollableSlider min={0} max={isCarrier ? 1 : 10} step={isCarrier ? 0.01 : 0.1} value={fm[key('Level')]} onChange={e => handleParamChange('fm', key('Level'), Number(e.target.value))} />
+        </div>
+        <div className="param-item">
+        <label>Attack</label>
+        <ScrollableSlider min={0.001} max={2.0} step={0.001} value={fm[key('Attack')]} onChange={e => handleParamChange('fm', key('Attack'), Number(e.target.value))} />
+        </div>
+        <div className="param-item">
+        <label>Decay</label>
+        <ScrollableSlider min={0.01} max={4.0} step={0.01} value={fm[key('Decay')]} onChange={e => handleParamChange('fm', key('Decay'), Number(e.target.value))} />
+        </div>
+        <div className="param-item">
+        <label>Sus</label>
+        <ScrollableSlider min={0} max={1} step={0.01} value={fm[key('Sustain')]} onChange={e => handleParamChange('fm', key('Sustain'), Number(e.target.value))} />
+        </div>
+        <div className="param-item">
+        <label>Rel</label>
+        <ScrollableSlider min={0.01} max={4.0} step={0.01} value={fm[key('Release')]} onChange={e => handleParamChange('fm', key('Release'), Number(e.target.value))} />
+        </div>
+    </>
+    );
+  }, [shownParams.fm, fmEditOperator, handleParamChange]);
+
+  const fmSteps = useMemo(() => (
+    <div style={{ padding: '4px 0' }}>
+    <PianoRoll
+        currentStep={isPlaying ? trackSteps.fm : -1}
+        length={trackLengths.fm}
+        groups={stepGroups}
+        steps={fmNotes}
+        gates={gates.fm}
+        onChange={handleFmNotesChange}
+        onGateChange={(stepIndex, gate) => handleGateChange('fm', stepIndex, gate)}
+        minNote={36} // C2, low enough for FM basses
+        maxNote={84} // C6
+    />
+    </div>
+  ), [isPlaying, trackSteps.fm, trackLengths.fm, stepGroups, fmNotes, gates.fm, handleFmNotesChange, handleGateChange]);
 
   return (
     <div className="container">
       <div className="header">
         <h1>12 oh 12</h1>
         <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+          <TransportDisplay position={transportPosition} />
           <button className="help-btn" onClick={() => setShowShortcutHelp(true)} title="Keyboard Shortcuts (?)">
             ?
           </button>
@@ -1260,19 +2789,184 @@ function App() {
             color: '#000'
           }}
         >
-          {isPlaying ? 'STOP' : 'START'}
+          {countInBeat !== null ? `COUNT ${countInBeat}` : isPlaying ? 'STOP' : 'START'}
         </button>
 
         <div className="control-group">
-          <label>BPM: {bpm}</label>
+          <label>
+            BPM: {bpm.toFixed(1)}
+            {tempoNudge !== 0 && ` (${tempoNudge > 0 ? '+' : '-'}${TEMPO_NUDGE * 100}%)`}
+          </label>
           <ScrollableSlider 
-            min={65}
-            max={175}
+            min={MIN_BPM}
+            max={MAX_BPM}
             value={bpm} 
-            onChange={handleBpmChange}
+            onChange={(e) => handleBpmChange(Number(e.target.value))}
           />
         </div>
 
+        <div className="control-group">
+          <label>Tempo</label>
+          <div className="page-buttons">
+            <input
+              key={bpm}
+              type="number"
+              className="bpm-input"
+              min={MIN_BPM}
+              max={MAX_BPM}
+              step={0.1}
+              defaultValue={bpm}
+              onBlur={(e) => handleBpmChange(Number(e.target.value) || bpm)}
+              onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+              title="Type a BPM (one decimal place)"
+            />
+            <button className="page-btn fill-btn" onClick={handleTapTempo} title="Tap tempo (T)">
+              TAP
+            </button>
+            {[-1, 1].map(direction => (
+              <button
+                key={direction}
+                className={`page-btn ${tempoNudge === direction ? 'active' : ''}`}
+                onPointerDown={() => handleTempoNudge(direction)}
+                onPointerUp={() => handleTempoNudge(0)}
+                onPointerLeave={() => { if (tempoNudge === direction) handleTempoNudge(0); }}
+                title={`Hold to play ${TEMPO_NUDGE * 100}% ${direction > 0 ? 'faster' : 'slower'}`}
+              >
+                {direction > 0 ? '»' : '«'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="control-group">
+          <label>Click: {metronomeVolume} dB</label>
+          <div className="page-buttons">
+            <button
+              className={`page-btn fill-btn ${metronomeOn ? 'active' : ''}`}
+              onClick={() => {
+                setMetronomeOn(!metronomeOn);
+                AudioEngine.setMetronome(!metronomeOn);
+              }}
+              title="Metronome (monitoring only, not part of the mix)"
+            >
+              CLICK
+            </button>
+            <ScrollableSelect
+              className="groove-select"
+              value={metronomeSound}
+              onChange={(e) => {
+                const sound = e.target.value as MetronomeSound;
+                setMetronomeSound(sound);
+                AudioEngine.setMetronomeSound(sound);
+              }}
+              title="Metronome sound"
+            >
+              {METRONOME_SOUNDS.map(sound => <option key={sound} value={sound}>{sound}</option>)}
+            </ScrollableSelect>
+            <ScrollableSelect
+              className="groove-select"
+              value={countInBars}
+              onChange={(e) => {
+                const bars = Number(e.target.value);
+                setCountInBars(bars);
+                AudioEngine.setCountIn(bars);
+              }}
+              title="Count-in before the transport starts"
+            >
+              <option value={0}>No count-in</option>
+              <option value={1}>Count 1 bar</option>
+              <option value={2}>Count 2 bars</option>
+            </ScrollableSelect>
+          </div>
+          <ScrollableSlider
+            className="swing-slider"
+            min={-40}
+            max={0}
+            value={metronomeVolume}
+            onChange={(e) => {
+              const db = Number(e.target.value);
+              setMetronomeVolume(db);
+              AudioEngine.setMetronomeVolume(db);
+            }}
+            title="Metronome volume"
+          />
+        </div>
+
+        <div className="control-group">
+          <label>Length</label>
+          <ScrollableSelect
+            className="pattern-select"
+            value={patternLength}
+            onChange={(e) => handlePatternLengthChange(Number(e.target.value))}
+          >
+            {PATTERN_LENGTHS.map(l => <option key={l} value={l}>{l}</option>)}
+          </ScrollableSelect>
+        </div>
+
+        <div className="control-group">
+          <label>Meter</label>
+          <ScrollableSelect
+            className="pattern-select"
+            value={stepGrouping}
+            onChange={(e) => {
+              const grouping = e.target.value as StepGrouping;
+              setStepGrouping(grouping);
+              AudioEngine.updateStepGrouping(grouping);
+            }}
+            title="Meter. Bars restart with the pattern, so a length that isn't whole bars (5/4 or 7/8 over 16 steps) ends on a short bar"
+          >
+            {(Object.keys(STEP_GROUPINGS) as StepGrouping[]).map(g => <option key={g} value={g}>{g}</option>)}
+          </ScrollableSelect>
+        </div>
+
+        <div className="control-group">
+          <label>Page</label>
+          <div className="page-buttons">
+            {Array.from({ length: pageCount }, (_, i) => (
+              <button
+                key={i}
+                className={`page-btn ${visiblePage === i ? 'active' : ''} ${isPlaying && Math.floor(currentStep / STEPS_PER_PAGE) === i ? 'playing' : ''}`}
+                onClick={() => handlePageSelect(i)}
+              >
+                {i + 1}
+              </button>
+            ))}
+            <button
+              className={`page-btn follow-btn ${followPlayhead ? 'active' : ''}`}
+              onClick={() => setFollowPlayhead(!followPlayhead)}
+              title="Follow playhead"
+            >
+              F
+            </button>
+          </div>
+        </div>
+
+        {heldStep && (
+          <div className="control-group">
+            <label>P-Lock</label>
+            <div className="page-buttons">
+              <span className="plock-target">{heldStep.inst.toUpperCase()} {heldStep.step + 1}</span>
+              <button className="page-btn plock-btn" onClick={handleClearHeldLocks} title="Clear this step's locks">
+                Clear
+              </button>
+              <button className="page-btn plock-btn" onClick={() => setHeldStep(null)} title="Release the held step">
+                Done
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="control-group">
+          <label>Fill</label>
+          <button
+            className={`page-btn fill-btn ${fillActive ? 'active' : ''}`}
+            onClick={handleFillToggle}
+            title="Fill mode: enables FILL trigs and mutes !FILL trigs"
+          >
+            FILL
+          </button>
+        </div>
+
         <div className="control-group">
           <label>Swing: {Math.round(swing * 100)}%</label>
           <ScrollableSlider
@@ -1284,11 +2978,54 @@ function App() {
             onChange={(e) => handleSwingChange(Number(e.target.value))}
           />
         </div>
+
+        <div className="control-group">
+          <label>Groove</label>
+          <div className="page-buttons">
+            <ScrollableSelect
+              className="groove-select"
+              value={groove}
+              onChange={(e) => handleGrooveChange(e.target.value)}
+              title="Groove template for tracks following the global groove"
+            >
+              {allGrooves.map(g => (
+                <option key={g.id} value={g.id}>{g.name}</option>
+              ))}
+            </ScrollableSelect>
+            <button className="page-btn" onClick={handleEditGroove} title="Edit this groove (built-ins are copied)">
+              Edit
+            </button>
+          </div>
+        </div>
+        <div className="control-group">
+          <label>History</label>
+          <div className="page-buttons">
+            <button className="page-btn" onClick={history.undo} disabled={!history.canUndo} title="Undo (Cmd/Ctrl+Z)">
+              ↶
+            </button>
+            <button className="page-btn" onClick={history.redo} disabled={!history.canRedo} title="Redo (Shift+Cmd/Ctrl+Z)">
+              ↷
+            </button>
+            <ScrollableSelect
+              className="history-select"
+              value={history.index}
+              onChange={(e) => history.jumpTo(Number(e.target.value))}
+              title="Jump back to an earlier edit"
+            >
+              {history.entries.map((entry, i) => (
+                <option key={i} value={i}>{i + 1}. {entry.label}</option>
+              ))}
+            </ScrollableSelect>
+          </div>
+        </div>
       </div>
 
       <SceneSelector
         scenes={scenes}
         activeIndex={activeSceneIndex}
+        queuedIndex={queuedSceneIndex}
+        launchQuantize={launchQuantize}
+        onLaunchQuantizeChange={setLaunchQuantize}
         onSceneSelect={handleSceneSelect}
         onSceneCopy={handleSceneCopy}
         onScenePaste={handleScenePaste}
@@ -1299,6 +3036,30 @@ function App() {
         onExportAll={handleExportAll}
       />
 
+      <SongArranger
+        song={song}
+        songMode={songMode}
+        activeSceneIndex={activeSceneIndex}
+        position={songPosition}
+        onSongChange={setSong}
+        onSongModeChange={handleSongModeChange}
+      />
+
+      <RecordPanel
+        armed={recordArmed}
+        mode={recordMode}
+        quantize={recordQuantize}
+        keysTarget={recordKeysTarget}
+        baseNote={recordBaseNote}
+        onArmedChange={handleRecordArm}
+        onModeChange={setRecordMode}
+        onQuantizeChange={setRecordQuantize}
+        onKeysTargetChange={setRecordKeysTarget}
+        onOctaveChange={handleRecordOctave}
+        onPad={handleLiveHit}
+        onNote={handleRecordNote}
+      />
+
       {proMode && (
         <ProModeControls
           params={proModeParams}
@@ -1309,97 +3070,81 @@ function App() {
 
 
       <div className="sequencer-grid">
-        {/* Kick */}
-        {(proModeParams.trackEnabled?.kick ?? true) && (
-        <TrackRow
-          label="kick"
-          instrument="kick"
-          mute={mutes.kick}
-          solo={solos.kick}
-          volume={volumes.kick}
-          reverbSend={reverbSends.kick}
-          delaySend={delaySends.kick}
-          eq={eqGains.kick}
-          onMute={handleMute}
-          onSolo={handleSolo}
-          onVolumeChange={handleVolumeChange}
-          onReverbSendChange={handleReverbSendChange}
-          onDelaySendChange={handleDelaySendChange}
-          onEQChange={handleEQChange}
-          extraControls={kickControls}
-        >
-          {kickSteps}
-        </TrackRow>
-        )}
+        {KIT_TRACKS.map(renderDrumTrack)}
 
-        {/* Snare */}
-        {(proModeParams.trackEnabled?.snare ?? true) && (
+        {/* Sampler */}
+        {(proModeParams.trackEnabled?.sampler ?? true) && (
         <TrackRow
-          label="snare"
-          instrument="snare"
-          mute={mutes.snare}
-          solo={solos.snare}
-          volume={volumes.snare}
-          reverbSend={reverbSends.snare}
-          delaySend={delaySends.snare}
-          eq={eqGains.snare}
+          label="sampler"
+          instrument="sampler"
+          className="sampler-container"
+          mute={mutes.sampler}
+          solo={solos.sampler}
+          volume={volumes.sampler}
+          reverbSend={reverbSends.sampler}
+          delaySend={delaySends.sampler}
+          eq={eqGains.sampler}
+          length={trackLengths.sampler}
+          resolution={trackResolutions.sampler}
+          groove={trackGrooves.sampler}
+          swing={trackSwing.sampler}
+          chokeGroup={chokeGroups.sampler}
+          grooves={allGrooves}
           onMute={handleMute}
           onSolo={handleSolo}
           onVolumeChange={handleVolumeChange}
           onReverbSendChange={handleReverbSendChange}
           onDelaySendChange={handleDelaySendChange}
           onEQChange={handleEQChange}
-          extraControls={snareControls}
+          onLengthChange={handleTrackLengthChange}
+          onResolutionChange={handleTrackResolutionChange}
+          onGrooveChange={handleTrackGrooveChange}
+          onSwingChange={handleTrackSwingChange}
+          onChokeGroupChange={handleChokeGroupChange}
+          extraControls={samplerControls}
+          onFileDrop={handleSampleFile}
         >
-          {snareSteps}
+          {samplerSteps}
         </TrackRow>
         )}
 
-        {/* HiHat */}
-        {(proModeParams.trackEnabled?.hihat ?? true) && (
+        {/* Slicer */}
+        {(proModeParams.trackEnabled?.slicer ?? true) && (
         <TrackRow
-          label="hihat"
-          instrument="hihat"
-          mute={mutes.hihat}
-          solo={solos.hihat}
-          volume={volumes.hihat}
-          reverbSend={reverbSends.hihat}
-          delaySend={delaySends.hihat}
-          eq={eqGains.hihat}
+          label="slicer"
+          instrument="slicer"
+          className="slicer-container"
+          mute={mutes.slicer}
+          solo={solos.slicer}
+          volume={volumes.slicer}
+          reverbSend={reverbSends.slicer}
+          delaySend={delaySends.slicer}
+          eq={eqGains.slicer}
+          length={trackLengths.slicer}
+          resolution={trackResolutions.slicer}
+          groove={trackGrooves.slicer}
+          swing={trackSwing.slicer}
+          chokeGroup={chokeGroups.slicer}
+          grooves={allGrooves}
           onMute={handleMute}
           onSolo={handleSolo}
           onVolumeChange={handleVolumeChange}
           onReverbSendChange={handleReverbSendChange}
           onDelaySendChange={handleDelaySendChange}
           onEQChange={handleEQChange}
-          extraControls={hihatControls}
+          onLengthChange={handleTrackLengthChange}
+          onResolutionChange={handleTrackResolutionChange}
+          onGrooveChange={handleTrackGrooveChange}
+          onSwingChange={handleTrackSwingChange}
+          onChokeGroupChange={handleChokeGroupChange}
+          extraControls={slicerControls}
+          onFileDrop={handleSlicerFile}
         >
-          {hihatSteps}
+          {slicerSteps}
         </TrackRow>
         )}
 
-        {/* Clap */}
-        {(proModeParams.trackEnabled?.clap ?? true) && (
-        <TrackRow
-          label="clap"
-          instrument="clap"
-          mute={mutes.clap}
-          solo={solos.clap}
-          volume={volumes.clap}
-          reverbSend={reverbSends.clap}
-          delaySend={delaySends.clap}
-          eq={eqGains.clap}
-          onMute={handleMute}
-          onSolo={handleSolo}
-          onVolumeChange={handleVolumeChange}
-          onReverbSendChange={handleReverbSendChange}
-          onDelaySendChange={handleDelaySendChange}
-          onEQChange={handleEQChange}
-          extraControls={clapControls}
-        >
-          {clapSteps}
-        </TrackRow>
-        )}
+        {KIT909_TRACKS.map(renderDrumTrack)}
 
         {/* Bass (303) */}
         {(proModeParams.trackEnabled?.bass ?? true) && (
@@ -1413,12 +3158,23 @@ function App() {
           reverbSend={reverbSends.bass}
           delaySend={delaySends.bass}
           eq={eqGains.bass}
+          length={trackLengths.bass}
+          resolution={trackResolutions.bass}
+          groove={trackGrooves.bass}
+          swing={trackSwing.bass}
+          chokeGroup={chokeGroups.bass}
+          grooves={allGrooves}
           onMute={handleMute}
           onSolo={handleSolo}
           onVolumeChange={handleVolumeChange}
           onReverbSendChange={handleReverbSendChange}
           onDelaySendChange={handleDelaySendChange}
           onEQChange={handleEQChange}
+          onLengthChange={handleTrackLengthChange}
+          onResolutionChange={handleTrackResolutionChange}
+          onGrooveChange={handleTrackGrooveChange}
+          onSwingChange={handleTrackSwingChange}
+          onChokeGroupChange={handleChokeGroupChange}
           extraControls={bassControls}
         >
           {bassSteps}
@@ -1437,12 +3193,23 @@ function App() {
           reverbSend={reverbSends.pad}
           delaySend={delaySends.pad}
           eq={eqGains.pad}
+          length={trackLengths.pad}
+          resolution={trackResolutions.pad}
+          groove={trackGrooves.pad}
+          swing={trackSwing.pad}
+          chokeGroup={chokeGroups.pad}
+          grooves={allGrooves}
           onMute={handleMute}
           onSolo={handleSolo}
           onVolumeChange={handleVolumeChange}
           onReverbSendChange={handleReverbSendChange}
           onDelaySendChange={handleDelaySendChange}
           onEQChange={handleEQChange}
+          onLengthChange={handleTrackLengthChange}
+          onResolutionChange={handleTrackResolutionChange}
+          onGrooveChange={handleTrackGrooveChange}
+          onSwingChange={handleTrackSwingChange}
+          onChokeGroupChange={handleChokeGroupChange}
           extraControls={padControls}
         >
           {padSteps}
@@ -1461,18 +3228,64 @@ function App() {
           reverbSend={reverbSends.poly}
           delaySend={delaySends.poly}
           eq={eqGains.poly}
+          length={trackLengths.poly}
+          resolution={trackResolutions.poly}
+          groove={trackGrooves.poly}
+          swing={trackSwing.poly}
+          chokeGroup={chokeGroups.poly}
+          grooves={allGrooves}
           onMute={handleMute}
           onSolo={handleSolo}
           onVolumeChange={handleVolumeChange}
           onReverbSendChange={handleReverbSendChange}
           onDelaySendChange={handleDelaySendChange}
           onEQChange={handleEQChange}
+          onLengthChange={handleTrackLengthChange}
+          onResolutionChange={handleTrackResolutionChange}
+          onGrooveChange={handleTrackGrooveChange}
+          onSwingChange={handleTrackSwingChange}
+          onChokeGroupChange={handleChokeGroupChange}
           extraControls={polyControls}
         >
           {polySteps}
         </TrackRow>
         )}
 
+        {/* FM Synth */}
+        {(proModeParams.trackEnabled?.fm ?? true) && (
+        <TrackRow
+          label="FM"
+          instrument="fm"
+          className="fm-container"
+          mute={mutes.fm}
+          solo={solos.fm}
+          volume={volumes.fm}
+          reverbSend={reverbSends.fm}
+          delaySend={delaySends.fm}
+          eq={eqGains.fm}
+          length={trackLengths.fm}
+          resolution={trackResolutions.fm}
+          groove={trackGrooves.fm}
+          swing={trackSwing.fm}
+          chokeGroup={chokeGroups.fm}
+          grooves={allGrooves}
+          onMute={handleMute}
+          onSolo={handleSolo}
+          onVolumeChange={handleVolumeChange}
+          onReverbSendChange={handleReverbSendChange}
+          onDelaySendChange={handleDelaySendChange}
+          onEQChange={handleEQChange}
+          onLengthChange={handleTrackLengthChange}
+          onResolutionChange={handleTrackResolutionChange}
+          onGrooveChange={handleTrackGrooveChange}
+          onSwingChange={handleTrackSwingChange}
+          onChokeGroupChange={handleChokeGroupChange}
+          extraControls={fmControls}
+        >
+          {fmSteps}
+        </TrackRow>
+        )}
+
       </div>
       
       <Visualizer theme={theme} isPlaying={isPlaying} />
@@ -1487,6 +3300,16 @@ function App() {
           onCancel={handleCancelImport}
         />
       )}
+
+      {editingGroove && (
+        <GrooveEditor
+          groove={editingGroove}
+          canDelete={userGrooves.some(g => g.id === editingGroove.id)}
+          onSave={handleSaveGroove}
+          onDelete={handleDeleteGroove}
+          onCancel={() => setEditingGroove(null)}
+        />
+      )}
     </div>
   );
 }
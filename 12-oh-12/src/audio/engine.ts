@@ -1,6 +1,15 @@
 import * as Tone from 'tone';
-import type { Instrument } from '../types';
+import type { Instrument, Tom, SliceMode, ChordSpread, ArpInstrument, ArpSettings, FMOperatorParam, FMOperatorKey, InstrumentParams, Scene, Song, StepGrouping, LaunchQuantize, TrigCondition, RatchetRamp, ParamLocks, GatedInstrument, GrooveTemplate, StepResolution, MetronomeSound, TransportPosition } from '../types';
+import { INSTRUMENTS, MAX_STEPS, DEFAULT_TRACK_LENGTH, GATED_INSTRUMENTS, TOMS, ARP_INSTRUMENTS, FM_OPERATOR_PARAMS, MAX_FM_OPERATORS } from '../types';
+import { getStepPosition, getPatternPosition, getBarLength, SUBTICKS_PER_SIXTEENTH, RESOLUTION_SUBTICKS } from '../utils/steps';
+import type { StepPosition } from '../utils/steps';
+import { BUILT_IN_GROOVES, DEFAULT_GROOVE_ID } from '../utils/grooves';
+import { findSlicePoints, getWaveformPeaks, DEFAULT_SLICE_COUNT } from '../utils/slices';
+import { buildChord, leadChord } from '../utils/chords';
+import type { ChordType } from '../utils/chords';
+import { getArpSequence, DEFAULT_ARP } from '../utils/arp';
 import { TapeChain } from './tape';
+import { FMSynth } from './fm';
 
 // -- Analyser & Master --
 const analyser = new Tone.Analyser('fft', 128);
@@ -23,6 +32,14 @@ analyser.connect(meter);
 meter.toDestination();
 
 
+// -- Metronome --
+// The click goes straight to the output, past the master bus and the analyser, so it never ends up in the mix
+const metronomeVol = new Tone.Volume(-6).toDestination();
+const metronome = new Tone.Synth({
+  oscillator: { type: 'square' },
+  envelope: { attack: 0.001, decay: 0.02, sustain: 0, release: 0.01 }
+}).connect(metronomeVol);
+
 // -- Effects --
 // High-pass filters BEFORE sends (150Hz) - prevents low-end mud in effects
 const reverbPreFilter = new Tone.Filter(150, "highpass");
@@ -48,16 +65,6 @@ const delayPostFilter = new Tone.Filter(95, "highpass"); // Post-effect HPF
 delayPreFilter.connect(delay);
 delay.chain(delayPostFilter, masterVol);
 
-// -- Volume Nodes --
-// Connect individual channels to masterVol instead of Destination
-const kickVol = new Tone.Volume(0);
-const snareVol = new Tone.Volume(0);
-const hihatVol = new Tone.Volume(0);
-const clapVol = new Tone.Volume(0);
-const bassVol = new Tone.Volume(0);
-const padVol = new Tone.Volume(0);
-const polyVol = new Tone.Volume(0);
-
 // -- 3-Band EQ Per Channel --
 // EQ bands: Low shelf 300Hz, Mid peaking 1kHz, High shelf 3kHz
 // Each with adjustable gain (-12dB to +12dB)
@@ -71,7 +78,7 @@ interface ChannelEQ {
   highGain: Tone.Gain;
 }
 
-const createChannelEQ = (inputNode: Tone.Volume): ChannelEQ => {
+const createChannelEQ = (inputNode: Tone.ToneAudioNode): ChannelEQ => {
   // Low shelf filter (300Hz)
   const low = new Tone.Filter({ type: 'lowshelf', frequency: 300, gain: 0 });
   // Mid peaking filter (1kHz)  
@@ -93,52 +100,52 @@ const createChannelEQ = (inputNode: Tone.Volume): ChannelEQ => {
   return { low, mid, high, lowGain, midGain, highGain };
 };
 
-// Create EQ for each channel
-const kickEQ = createChannelEQ(kickVol);
-const snareEQ = createChannelEQ(snareVol);
-const hihatEQ = createChannelEQ(hihatVol);
-const clapEQ = createChannelEQ(clapVol);
-const bassEQ = createChannelEQ(bassVol);
-const padEQ = createChannelEQ(padVol);
-const polyEQ = createChannelEQ(polyVol);
-
-
-// -- Send Nodes --
-// Connect Channel Volume -> Send Gain -> Pre-Filter (150Hz HPF) -> Effects
-const kickReverbSend = new Tone.Gain(0).connect(reverbPreFilter);
-const kickDelaySend = new Tone.Gain(0).connect(delayPreFilter);
-kickVol.connect(kickReverbSend);
-kickVol.connect(kickDelaySend);
-
-const snareReverbSend = new Tone.Gain(0).connect(reverbPreFilter);
-const snareDelaySend = new Tone.Gain(0).connect(delayPreFilter);
-snareVol.connect(snareReverbSend);
-snareVol.connect(snareDelaySend);
-
-const hihatReverbSend = new Tone.Gain(0).connect(reverbPreFilter);
-const hihatDelaySend = new Tone.Gain(0).connect(delayPreFilter);
-hihatVol.connect(hihatReverbSend);
-hihatVol.connect(hihatDelaySend);
-
-const clapReverbSend = new Tone.Gain(0).connect(reverbPreFilter);
-const clapDelaySend = new Tone.Gain(0).connect(delayPreFilter);
-clapVol.connect(clapReverbSend);
-clapVol.connect(clapDelaySend);
-
-const bassReverbSend = new Tone.Gain(0).connect(reverbPreFilter);
-const bassDelaySend = new Tone.Gain(0).connect(delayPreFilter);
-bassVol.connect(bassReverbSend);
-bassVol.connect(bassDelaySend);
+// -- Channel Strips --
+// Voice -> Volume -> Choke -> EQ -> masterVol, with the reverb and delay sends taken after the choke.
+// The choke gain closes when another track in the same choke group fires (see chokeTrack).
+interface Channel {
+  vol: Tone.Volume;
+  choke: Tone.Gain;
+  eq: ChannelEQ;
+  reverbSend: Tone.Gain;
+  delaySend: Tone.Gain;
+}
 
-const padReverbSend = new Tone.Gain(0).connect(reverbPreFilter);
-const padDelaySend = new Tone.Gain(0).connect(delayPreFilter);
-padVol.connect(padReverbSend);
-padVol.connect(padDelaySend);
+const createChannel = (): Channel => {
+  const vol = new Tone.Volume(0);
+  const choke = new Tone.Gain(1);
+  vol.connect(choke);
+  // Sends: Choke -> Send Gain -> Pre-Filter (150Hz HPF) -> Effects
+  const reverbSend = new Tone.Gain(0).connect(reverbPreFilter);
+  const delaySend = new Tone.Gain(0).connect(delayPreFilter);
+  choke.connect(reverbSend);
+  choke.connect(delaySend);
+  return { vol, choke, eq: createChannelEQ(choke), reverbSend, delaySend };
+};
 
-const polyReverbSend = new Tone.Gain(0).connect(reverbPreFilter);
-const polyDelaySend = new Tone.Gain(0).connect(delayPreFilter);
-polyVol.connect(polyReverbSend);
-polyVol.connect(polyDelaySend);
+const channels = Object.fromEntries(
+  INSTRUMENTS.map(inst => [inst, createChannel()])
+) as Record<Instrument, Channel>;
+
+const kickVol = channels.kick.vol;
+const snareVol = channels.snare.vol;
+const hihatVol = channels.hihat.vol;
+const openhatVol = channels.openhat.vol;
+const clapVol = channels.clap.vol;
+const rimshotVol = channels.rimshot.vol;
+const cowbellVol = channels.cowbell.vol;
+const rideVol = channels.ride.vol;
+const crashVol = channels.crash.vol;
+const samplerVol = channels.sampler.vol;
+const slicerVol = channels.slicer.vol;
+const bassVol = channels.bass.vol;
+const padVol = channels.pad.vol;
+const polyVol = channels.poly.vol;
+const fmVol = channels.fm.vol;
+const kick909Vol = channels.kick909.vol;
+const snare909Vol = channels.snare909.vol;
+const hihat909Vol = channels.hihat909.vol;
+const clap909Vol = channels.clap909.vol;
 
 
 // -- 909-ish Synth Setup --
@@ -191,6 +198,22 @@ hihat.frequency.value = 400;
 const hatFilter = new Tone.Filter(3000, "highpass").connect(hihatVol);
 hihat.connect(hatFilter);
 
+// Open hat: the same metal voice held open, cut short by the closed hat through their choke group
+const openhat = new Tone.MetalSynth({
+  envelope: {
+    attack: 0.001,
+    decay: 0.8,
+    release: 0.4
+  },
+  harmonicity: 5.1,
+  modulationIndex: 32,
+  resonance: 4000,
+  octaves: 1.5
+});
+openhat.frequency.value = 400;
+const openhatFilter = new Tone.Filter(3000, "highpass").connect(openhatVol);
+openhat.connect(openhatFilter);
+
 // Clap is trickier, simplified as noise burst with reverb
 const clap = new Tone.NoiseSynth({
   noise: { type: 'pink'},
@@ -209,6 +232,239 @@ const clapFilter = new Tone.Filter({
 
 clap.connect(clapFilter);
 
+// -- Toms & Percussion --
+// Toms: a sine body with a short downward sweep, one voice per tom
+const createTom = (tom: Tom) => new Tone.MembraneSynth({
+  pitchDecay: 0.03,
+  octaves: 1.5,
+  oscillator: { type: 'sine' },
+  envelope: {
+    attack: 0.001,
+    decay: 0.4,
+    sustain: 0,
+    release: 0.1
+  }
+}).connect(channels[tom].vol);
+const toms: Record<Tom, Tone.MembraneSynth> = {
+  lowtom: createTom('lowtom'),
+  midtom: createTom('midtom'),
+  hightom: createTom('hightom')
+};
+const tomTunes: Record<Tom, number> = { lowtom: 90, midtom: 130, hightom: 180 };
+
+// Rimshot: two short pings, triangle and square, through a highpass for the crack
+const RIMSHOT_RATIO = 3.7; // Upper ping relative to the lower one
+const rimshotEnvelope = {
+  attack: 0.001,
+  decay: 0.04,
+  sustain: 0,
+  release: 0.02
+};
+const rimshotFilter = new Tone.Filter(800, 'highpass').connect(rimshotVol);
+const rimshotLow = new Tone.Synth({
+  oscillator: { type: 'triangle' },
+  envelope: rimshotEnvelope
+}).connect(rimshotFilter);
+const rimshotHigh = new Tone.Synth({
+  oscillator: { type: 'square' },
+  envelope: rimshotEnvelope
+}).connect(rimshotFilter);
+let rimshotTune = 450;
+
+// Cowbell: two detuned squares (540 and 800 Hz on the 808) through a bandpass
+const COWBELL_RATIO = 1.48;
+const cowbellEnvelope = {
+  attack: 0.001,
+  decay: 0.3,
+  sustain: 0,
+  release: 0.05
+};
+const cowbellFilter = new Tone.Filter({
+  type: 'bandpass',
+  frequency: 1200,
+  Q: 1
+}).connect(cowbellVol);
+const cowbellLow = new Tone.Synth({
+  oscillator: { type: 'square' },
+  envelope: cowbellEnvelope
+}).connect(cowbellFilter);
+const cowbellHigh = new Tone.Synth({
+  oscillator: { type: 'square' },
+  envelope: cowbellEnvelope
+}).connect(cowbellFilter);
+let cowbellTune = 540;
+
+// -- Cymbals --
+// Ride: a long, darker metal voice; crash: wider and noisier, with a longer wash
+const ride = new Tone.MetalSynth({
+  envelope: {
+    attack: 0.001,
+    decay: 1.6,
+    release: 0.8
+  },
+  harmonicity: 3.1,
+  modulationIndex: 16,
+  resonance: 5000,
+  octaves: 1
+});
+ride.frequency.value = 300;
+const rideFilter = new Tone.Filter(5000, 'highpass').connect(rideVol);
+ride.connect(rideFilter);
+
+const crash = new Tone.MetalSynth({
+  envelope: {
+    attack: 0.001,
+    decay: 2.2,
+    release: 1
+  },
+  harmonicity: 8,
+  modulationIndex: 40,
+  resonance: 3000,
+  octaves: 2
+});
+crash.frequency.value = 250;
+const crashFilter = new Tone.Filter(3500, 'highpass').connect(crashVol);
+crash.connect(crashFilter);
+
+// -- Sampler & Slicer --
+// Each sample is decoded once, forwards and reversed, and shared by both tracks. Every hit plays its own
+// buffer source, so overlapping hits ring out. Scenes pick their sample by id, so every sample the scene
+// bank uses stays decoded.
+interface SamplerBuffers {
+  forward: Tone.ToneAudioBuffer;
+  reversed: Tone.ToneAudioBuffer;
+}
+const samplerBuffers = new Map<string, SamplerBuffers>();
+const samplerLoads = new Map<string, Promise<void>>();
+let currentSampleId: string | null = null;
+let samplerStart = 0;
+let samplerEnd = 1;
+let samplerPitch = 0;
+let samplerReverse = false;
+let samplerAttack = 0.001;
+let samplerRelease = 0.05;
+
+let currentSlicerSampleId: string | null = null;
+let currentSliceMode: SliceMode = 'equal';
+let currentSliceCount = DEFAULT_SLICE_COUNT;
+let slicerPitch = 0;
+let slicerAttack = 0.001;
+let slicerRelease = 0.02;
+// Slice points by "id:mode:count", as transient detection scans the whole sample
+const slicePointCache = new Map<string, number[]>();
+
+const getSlicePoints = (id: string, mode: SliceMode, count: number): number[] | null => {
+  const buffers = samplerBuffers.get(id);
+  if (!buffers) return null;
+  const key = `${id}:${mode}:${count}`;
+  let points = slicePointCache.get(key);
+  if (!points) {
+    points = findSlicePoints(buffers.forward.toMono().getChannelData(0), buffers.forward.sampleRate, mode, count);
+    slicePointCache.set(key, points);
+  }
+  return points;
+};
+
+// -- 909 Voices --
+// Kick: a sine body swept down from above its pitch, plus a short high-passed noise click for the beater
+const kick909 = new Tone.MembraneSynth({
+  pitchDecay: 0.04,
+  octaves: 3,
+  oscillator: { type: 'sine' },
+  envelope: {
+    attack: 0.001,
+    decay: 0.5,
+    sustain: 0,
+    release: 0.1
+  }
+}).connect(kick909Vol);
+let kick909Tune = 50;
+let kick909ClickLevel = 0.5;
+
+const kick909Click = new Tone.NoiseSynth({
+  noise: { type: 'white' },
+  envelope: {
+    attack: 0.001,
+    decay: 0.008,
+    sustain: 0
+  }
+});
+const kick909ClickFilter = new Tone.Filter(3000, 'highpass').connect(kick909Vol);
+kick909Click.connect(kick909ClickFilter);
+
+// Snare: two tuned triangle oscillators for the body, and low-passed noise for the snares
+const SNARE_909_RATIO = 1.7; // Upper oscillator relative to the lower one
+const snare909BodyEnvelope = {
+  attack: 0.001,
+  decay: 0.12,
+  sustain: 0,
+  release: 0.05
+};
+const snare909Low = new Tone.Synth({
+  oscillator: { type: 'triangle' },
+  envelope: snare909BodyEnvelope
+}).connect(snare909Vol);
+const snare909High = new Tone.Synth({
+  oscillator: { type: 'triangle' },
+  envelope: { ...snare909BodyEnvelope, decay: 0.08 }
+}).connect(snare909Vol);
+let snare909Tune = 185;
+let snare909Snappy = 0.6;
+
+const snare909Noise = new Tone.NoiseSynth({
+  noise: { type: 'white' },
+  envelope: {
+    attack: 0.001,
+    decay: 0.2,
+    sustain: 0
+  }
+});
+const snare909NoiseFilter = new Tone.Filter(7000, 'lowpass').connect(snare909Vol);
+snare909Noise.connect(snare909NoiseFilter);
+
+// Hi-hat: brighter and shorter than the 808-style hat
+const hihat909 = new Tone.MetalSynth({
+  envelope: {
+    attack: 0.001,
+    decay: 0.1,
+    release: 0.05
+  },
+  harmonicity: 5.1,
+  modulationIndex: 40,
+  resonance: 8000,
+  octaves: 1
+});
+hihat909.frequency.value = 300;
+const hihat909Filter = new Tone.Filter(7000, 'highpass').connect(hihat909Vol);
+hihat909.connect(hihat909Filter);
+
+// Clap: a few quick noise bursts, then a longer tail, through one bandpass
+const CLAP_909_BURSTS = 3;
+const CLAP_909_BURST_GAP = 0.011; // Seconds between bursts
+const clap909Burst = new Tone.NoiseSynth({
+  noise: { type: 'white' },
+  envelope: {
+    attack: 0.001,
+    decay: 0.008,
+    sustain: 0
+  }
+});
+const clap909Tail = new Tone.NoiseSynth({
+  noise: { type: 'white' },
+  envelope: {
+    attack: 0.001,
+    decay: 0.25,
+    sustain: 0
+  }
+});
+const clap909Filter = new Tone.Filter({
+  type: 'bandpass',
+  frequency: 1200,
+  Q: 1.5
+}).connect(clap909Vol);
+clap909Burst.connect(clap909Filter);
+clap909Tail.connect(clap909Filter);
+
 // -- 303 Synth --
 const bass = new Tone.MonoSynth({
   oscillator: {
@@ -232,25 +488,7 @@ const bass = new Tone.MonoSynth({
 }).connect(bassVol);
 
 // -- Pad Synth (PolySynth with Unison for chords) --
-type PadVoicing = 'single' | 'octave' | 'fifth' | 'major' | 'minor' | 'sus2' | 'sus4';
-
-
-const getChordNotes = (root: number, voicing: PadVoicing): string[] => {
-  let midiNotes: number[];
-  switch(voicing) {
-    case 'single': midiNotes = [root]; break;
-    case 'octave': midiNotes = [root, root + 12]; break;
-    case 'fifth': midiNotes = [root, root + 7]; break;
-    case 'major': midiNotes = [root, root + 4, root + 7]; break;
-    case 'minor': midiNotes = [root, root + 3, root + 7]; break;
-    case 'sus2': midiNotes = [root, root + 2, root + 7]; break;
-    case 'sus4': midiNotes = [root, root + 5, root + 7]; break;
-    default: midiNotes = [root];
-  }
-  return midiNotes.map(m => Tone.Frequency(m, 'midi').toNote());
-};
-
-
+const toNoteNames = (notes: number[]): string[] => notes.map(m => Tone.Frequency(m, 'midi').toNote());
 
 // Distortion for Pad
 const padDistortion = new Tone.Distortion({
@@ -312,73 +550,825 @@ const poly = new Tone.PolySynth(Tone.Synth, {
 }).connect(polyFilter);
 
 // Trigger poly voices
-const triggerPoly = (notes: string[], duration: string, time: number, velocity: number) => {
+const triggerPoly = (notes: string[], duration: Tone.Unit.Time, time: number, velocity: number) => {
   poly.triggerAttackRelease(notes, duration, time, velocity);
 };
 
+// -- FM Synth (2-4 sine operators, see fm.ts) --
+const fmSynth = new FMSynth();
+fmSynth.output.connect(fmVol);
+
 
 // Trigger all pad voices (unison)
-const triggerPadVoices = (notes: string[], duration: string, time: number, velocity: number) => {
+const triggerPadVoices = (notes: string[], duration: Tone.Unit.Time, time: number, velocity: number) => {
   padVoice1.triggerAttackRelease(notes, duration, time, velocity);
   padVoice2.triggerAttackRelease(notes, duration, time, velocity);
   padVoice3.triggerAttackRelease(notes, duration, time, velocity);
 };
 
 // Keep track of per-step bass pitches (MIDI note numbers, default C2=36)
-let currentBassPitches: number[] = new Array(16).fill(36);
+let currentBassPitches: number[] = new Array(MAX_STEPS).fill(36);
+let currentBassAccents: boolean[] = new Array(MAX_STEPS).fill(false);
+let currentBassSlides: boolean[] = new Array(MAX_STEPS).fill(false);
+
+// 303 articulation: accent adds filter env mod and level; slide holds the note into the next one
+const ACCENT_ENV_MOD = 2; // Extra octaves of filter sweep
+const ACCENT_GAIN = 1.4;
+const SLIDE_TIME = 0.06; // Portamento, seconds
+const SLIDE_SUSTAIN = 0.7; // Amp level held while sliding
+// Unaccented env mod; setBassEnvMod keeps this in sync so accents stack on top of it
+let bassEnvMod = 4;
+// Bass step (counted from the scene start) whose trig should glide from the held note instead of retriggering
+let bassSlideTick: number | null = null;
+
+/**
+ * Set up the filter envelope for a bass note and return its (possibly accented) velocity
+ */
+const accentBass = (step: number, velocity: number): number => {
+  const accent = currentBassAccents[step];
+  bass.filterEnvelope.octaves = bassEnvMod + (accent ? ACCENT_ENV_MOD : 0);
+  return accent ? Math.min(1, velocity * ACCENT_GAIN) : velocity;
+};
 
 // Keep track of per-step pad pitches (MIDI note numbers, default C3=48) and voicings
-let currentPadPitches: number[] = new Array(16).fill(48);
-let currentPadVoicings: PadVoicing[] = new Array(16).fill('single');
+let currentPadPitches: number[] = new Array(MAX_STEPS).fill(48);
+let currentPadVoicings: ChordType[] = new Array(MAX_STEPS).fill('single');
+let currentPadInversions: number[] = new Array(MAX_STEPS).fill(0);
+let currentPadSpread: ChordSpread = 'close';
+let padVoiceLeading = false;
+// Last chord the pad played, which voice leading moves from. Cleared when the transport starts.
+let lastPadChord: number[] | null = null;
 // Cache for the calculated note names to avoid doing math in the hot loop
-let currentPadNoteNames: string[][] = new Array(16).fill([]);
+let currentPadNoteNames: string[][] = new Array(MAX_STEPS).fill([]);
 
 // Initialize cache
 const updatePadCache = () => {
-    for (let i = 0; i < 16; i++) {
-        currentPadNoteNames[i] = getChordNotes(currentPadPitches[i], currentPadVoicings[i]);
+    for (let i = 0; i < MAX_STEPS; i++) {
+        currentPadNoteNames[i] = toNoteNames(buildChord(currentPadPitches[i], currentPadVoicings[i], currentPadInversions[i], currentPadSpread));
     }
 };
+
+/**
+ * Notes a pad step plays. With voice leading on, the chord is revoiced against the last one played,
+ * so it follows what actually sounded (skipped trigs, fills, scene changes) rather than the grid.
+ */
+const getPadNotes = (step: number): string[] => {
+  if (!padVoiceLeading) return currentPadNoteNames[step];
+  const root = currentPadPitches[step];
+  const chord = lastPadChord
+    ? leadChord(lastPadChord, root, currentPadVoicings[step], currentPadSpread)
+    : buildChord(root, currentPadVoicings[step], currentPadInversions[step], currentPadSpread);
+  lastPadChord = chord;
+  return toNoteNames(chord);
+};
 // Initial calculation
 updatePadCache();
 
 // Keep track of per-step poly notes (array of MIDI notes per step)
-let currentPolyNotes: number[][] = new Array(16).fill([]);
+let currentPolyNotes: number[][] = new Array(MAX_STEPS).fill([]);
+// Same for the fm track
+let currentFmNotes: number[][] = new Array(MAX_STEPS).fill([]);
+// Sampler per-step pitch offsets, in semitones
+let currentSamplerPitches: number[] = new Array(MAX_STEPS).fill(0);
+// Slicer per-step slice index
+let currentSlicerSlices: number[] = new Array(MAX_STEPS).fill(0);
+
+// Per-step note lengths (in steps) for the melodic tracks
+let currentGates: Record<GatedInstrument, number[]> = {
+  bass: new Array(MAX_STEPS).fill(1),
+  pad: new Array(MAX_STEPS).fill(2),
+  poly: new Array(MAX_STEPS).fill(2),
+  fm: new Array(MAX_STEPS).fill(2),
+};
+
+const isGated = (inst: Instrument): inst is GatedInstrument => (GATED_INSTRUMENTS as Instrument[]).includes(inst);
+
+// Identifies what a melodic step plays, so a gate can tie into a following step with the same notes
+const getStepNotesKey = (inst: GatedInstrument, step: number): string => {
+  switch (inst) {
+    case 'bass': return String(currentBassPitches[step]);
+    case 'pad': return `${currentPadPitches[step]}:${currentPadVoicings[step]}:${currentPadInversions[step]}`;
+    case 'poly': return [...(currentPolyNotes[step] || [])].sort((a, b) => a - b).join(',');
+    case 'fm': return [...(currentFmNotes[step] || [])].sort((a, b) => a - b).join(',');
+  }
+};
+
+const hasNotes = (inst: GatedInstrument, step: number): boolean => {
+  if (!currentGrid[inst]?.[step]) return false;
+  if (inst === 'poly') return (currentPolyNotes[step]?.length ?? 0) > 0;
+  if (inst === 'fm') return (currentFmNotes[step]?.length ?? 0) > 0;
+  return true;
+};
+
+/**
+ * Length in steps of the note starting at `step`, or null when `step` is tied into an earlier
+ * note. A trig is tied when a sounding note with the same notes already covers its whole gate,
+ * so a gate only ties once it is lengthened past the following trig's own gate; evenly gated
+ * repeats (the defaults) retrigger on every step. Ties do not wrap the loop.
+ */
+const getTiedGate = (inst: GatedInstrument, step: number): number | null => {
+  const gates = currentGates[inst];
+  const isTied = (i: number, end: number, key: string) => i + gates[i] <= end && getStepNotesKey(inst, i) === key;
+  let end = -1;
+  let key = '';
+  for (let i = 0; i < step; i++) {
+    if (!hasNotes(inst, i) || isTied(i, end, key)) continue;
+    end = i + gates[i];
+    key = getStepNotesKey(inst, i);
+  }
+  return isTied(step, end, key) ? null : gates[step];
+};
 
 // Keep track of per-step velocities (0-127)
 let currentVelocities: Record<Instrument, number[]> = {
-  kick: new Array(16).fill(100), snare: new Array(16).fill(100), hihat: new Array(16).fill(100), clap: new Array(16).fill(100),
+  kick: new Array(MAX_STEPS).fill(100), snare: new Array(MAX_STEPS).fill(100), hihat: new Array(MAX_STEPS).fill(100), openhat: new Array(MAX_STEPS).fill(100), clap: new Array(MAX_STEPS).fill(100),
   kick909: [], snare909: [], hihat909: [], clap909: [],
-  bass: new Array(16).fill(100), pad: new Array(16).fill(100), poly: new Array(16).fill(100)
+  lowtom: [], midtom: [], hightom: [], rimshot: [], cowbell: [], ride: [], crash: [], sampler: [], slicer: [],
+  bass: new Array(MAX_STEPS).fill(100), pad: new Array(MAX_STEPS).fill(100), poly: new Array(MAX_STEPS).fill(100), fm: new Array(MAX_STEPS).fill(100)
 };
 
+// Per-step trig probability (0-100) and conditions
+let currentProbabilities: Partial<Record<Instrument, number[]>> = {};
+let currentConditions: Partial<Record<Instrument, TrigCondition[]>> = {};
+// Per-step micro-timing, in percent of a 16th (-50 to 50)
+let currentNudges: Partial<Record<Instrument, number[]>> = {};
+// Per-step ratchets: sub-hits spread evenly across the step, with an optional velocity ramp
+let currentRatchets: Partial<Record<Instrument, number[]>> = {};
+let currentRatchetRamps: Partial<Record<Instrument, RatchetRamp[]>> = {};
+// Parameter locks: base params from the scene, per-step overrides, and the paths currently overridden
+let currentParams: InstrumentParams | null = null;
+let currentParamLocks: ParamLocks = {};
+const lockedPaths = new Set<string>();
+// Fill is held live from the UI; "pre" reads the outcome of each track's last conditional trig
+let fillActive = false;
+let lastTrigResults: Partial<Record<Instrument, boolean>> = {};
+
 // -- Sequencer State --
 // We keep a mutable reference to the grid so the repeat loop can read it without restarts
 let currentGrid: Record<Instrument, boolean[]> = {
-  kick: [], snare: [], hihat: [], clap: [], 
+  kick: [], snare: [], hihat: [], openhat: [], clap: [],
+  lowtom: [], midtom: [], hightom: [], rimshot: [], cowbell: [], ride: [], crash: [], sampler: [], slicer: [],
   kick909: [], snare909: [], hihat909: [], clap909: [],
-  bass: [], pad: [], poly: []
+  bass: [], pad: [], poly: [], fm: []
 };
 let currentMutes: Record<Instrument, boolean> = {
-  kick: false, snare: false, hihat: false, clap: false,
+  kick: false, snare: false, hihat: false, openhat: false, clap: false,
+  lowtom: false, midtom: false, hightom: false, rimshot: false, cowbell: false, ride: false, crash: false, sampler: false, slicer: false,
   kick909: false, snare909: false, hihat909: false, clap909: false,
-  bass: false, pad: false, poly: false
+  bass: false, pad: false, poly: false, fm: false
 };
 let currentSolos: Record<Instrument, boolean> = {
-  kick: false, snare: false, hihat: false, clap: false,
+  kick: false, snare: false, hihat: false, openhat: false, clap: false,
+  lowtom: false, midtom: false, hightom: false, rimshot: false, cowbell: false, ride: false, crash: false, sampler: false, slicer: false,
   kick909: false, snare909: false, hihat909: false, clap909: false,
-  bass: false, pad: false, poly: false
+  bass: false, pad: false, poly: false, fm: false
 };
 let currentEnabledTracks: Record<Instrument, boolean> = {
-  kick: true, snare: true, hihat: true, clap: true,
+  kick: true, snare: true, hihat: true, openhat: true, clap: true,
+  lowtom: true, midtom: true, hightom: true, rimshot: true, cowbell: true, ride: true, crash: true, sampler: true, slicer: true,
   kick909: true, snare909: true, hihat909: true, clap909: true,
-  bass: true, pad: true, poly: true
+  bass: true, pad: true, poly: true, fm: true
+};
+// Per-track pattern lengths (polymeter): each track wraps at its own length
+let currentTrackLengths: Record<Instrument, number> = {
+  kick: DEFAULT_TRACK_LENGTH, snare: DEFAULT_TRACK_LENGTH, hihat: DEFAULT_TRACK_LENGTH, openhat: DEFAULT_TRACK_LENGTH, clap: DEFAULT_TRACK_LENGTH,
+  lowtom: DEFAULT_TRACK_LENGTH, midtom: DEFAULT_TRACK_LENGTH, hightom: DEFAULT_TRACK_LENGTH, rimshot: DEFAULT_TRACK_LENGTH, cowbell: DEFAULT_TRACK_LENGTH, ride: DEFAULT_TRACK_LENGTH, crash: DEFAULT_TRACK_LENGTH, sampler: DEFAULT_TRACK_LENGTH, slicer: DEFAULT_TRACK_LENGTH,
+  kick909: DEFAULT_TRACK_LENGTH, snare909: DEFAULT_TRACK_LENGTH, hihat909: DEFAULT_TRACK_LENGTH, clap909: DEFAULT_TRACK_LENGTH,
+  bass: DEFAULT_TRACK_LENGTH, pad: DEFAULT_TRACK_LENGTH, poly: DEFAULT_TRACK_LENGTH, fm: DEFAULT_TRACK_LENGTH
+};
+// Scene length: the shared playhead reported to the UI wraps here
+let currentPatternLength = 16;
+let currentStepGrouping: StepGrouping = '4/4';
+let setStepCallback: (step: number, trackSteps: Record<Instrument, number>) => void = () => {};
+let positionCallback: (position: TransportPosition | null) => void = () => {};
+// Bars started since the transport started, and the audio time of the first step
+let barCount = 0;
+let startTime = 0;
+
+// 16th notes elapsed since the transport started. Track playheads are derived from it.
+let currentTick = 0;
+// Latest tick and the audio time it was scheduled for, so live input can be placed on the grid
+let lastTick = 0;
+let lastTickTime: number | null = null;
+// Tick at which the current scene started playing; playheads restart from here on a song change
+let sceneStartTick = 0;
+
+// Per-track step resolution. Each track counts its own steps ("track ticks") from the scene start.
+let currentTrackResolutions: Partial<Record<Instrument, StepResolution>> = {};
+
+const getStepSubticks = (inst: Instrument) => RESOLUTION_SUBTICKS[currentTrackResolutions[inst] ?? '16n'];
+
+const getTrackStep = (inst: Instrument, trackTick: number) => trackTick % (currentTrackLengths[inst] || DEFAULT_TRACK_LENGTH);
+
+/**
+ * Track ticks starting inside a 16th, given the 16th's first sub-tick counted from the scene start
+ */
+const getTrackTicksIn = (inst: Instrument, start: number): number[] => {
+  const length = getStepSubticks(inst);
+  const ticks: number[] = [];
+  for (let t = Math.ceil(start / length); t * length < start + SUBTICKS_PER_SIXTEENTH; t++) ticks.push(t);
+  return ticks;
+};
+
+// Track steps already played from the previous 16th because they sound early, keyed "inst:trackTick"
+const earlyScheduled = new Set<string>();
+
+// -- Groove --
+// Swing and groove templates are applied per track by the sequencer, so Tone.Transport.swing stays at 0.
+// A track with a null groove or swing follows the global one.
+let globalSwing = 0;
+let globalGrooveId = DEFAULT_GROOVE_ID;
+let currentTrackGrooves: Partial<Record<Instrument, string | null>> = {};
+let currentTrackSwing: Partial<Record<Instrument, number | null>> = {};
+let grooveTemplates: Record<string, GrooveTemplate> = Object.fromEntries(BUILT_IN_GROOVES.map(g => [g.id, g]));
+
+const getTrackGroove = (inst: Instrument): GrooveTemplate | undefined =>
+  grooveTemplates[currentTrackGrooves[inst] ?? globalGrooveId];
+
+/**
+ * Where a track's step sounds relative to the grid, in percent of a 16th:
+ * swing on every other step (the same 2/3 scaling Tone.Transport used), the groove template, then the step's nudge.
+ * Swing scales with straight step lengths and leaves triplet tracks alone; both cycles count the track's own steps.
+ */
+const getTimingOffset = (inst: Instrument, step: number, trackTick: number): number => {
+  const resolution = currentTrackResolutions[inst] ?? '16n';
+  const swing = currentTrackSwing[inst] ?? globalSwing;
+  const groove = getTrackGroove(inst);
+  const grooveTiming = groove ? groove.timing[trackTick % groove.timing.length] ?? 0 : 0;
+  const swingTiming = trackTick % 2 === 1 && !resolution.endsWith('t')
+    ? swing * 100 * (2 / 3) * (RESOLUTION_SUBTICKS[resolution] / SUBTICKS_PER_SIXTEENTH)
+    : 0;
+  return swingTiming + grooveTiming + (currentNudges[inst]?.[step] ?? 0);
+};
+
+const getGrooveVelocity = (inst: Instrument, trackTick: number): number => {
+  const groove = getTrackGroove(inst);
+  if (!groove) return 1;
+  return (groove.velocity[trackTick % groove.velocity.length] ?? 100) / 100;
+};
+
+/**
+ * Decide whether an active step fires on this pass of its track.
+ * The pass count restarts with the scene, so "first" and "A:B" line up with the scene start.
+ */
+const evaluateTrig = (inst: Instrument, step: number, trackTick: number): boolean => {
+  const condition = currentConditions[inst]?.[step] ?? 'always';
+  const probability = currentProbabilities[inst]?.[step] ?? 100;
+  if (condition === 'always' && probability >= 100) return true;
+
+  const pass = Math.floor(trackTick / (currentTrackLengths[inst] || DEFAULT_TRACK_LENGTH));
+  let result: boolean;
+  switch (condition) {
+    case 'always': result = true; break;
+    case 'fill': result = fillActive; break;
+    case '!fill': result = !fillActive; break;
+    case 'pre': result = lastTrigResults[inst] ?? false; break;
+    case '!pre': result = !(lastTrigResults[inst] ?? false); break;
+    case 'first': result = pass === 0; break;
+    case '!first': result = pass > 0; break;
+    default: {
+      const [a, b] = condition.split(':').map(Number);
+      result = pass % b === a - 1;
+    }
+  }
+  result = result && (probability >= 100 || Math.random() * 100 < probability);
+
+  // "pre" trigs follow the chain rather than extending it
+  if (condition !== 'pre' && condition !== '!pre') lastTrigResults[inst] = result;
+  return result;
+};
+
+// -- Song Mode --
+// The arrangement is played from the engine so scene changes land exactly on the pattern boundary
+let currentScenes: Scene[] = [];
+let currentSong: Song = { entries: [], loopEnabled: false, loopStart: 0, loopEnd: 0 };
+let songModeEnabled = false;
+let songEntryIndex = 0;
+let songRepeat = 0;
+let songFinished = false;
+// Set when song mode is switched on mid-playback: the next boundary jumps to the song start
+let songNeedsCue = false;
+let songPositionCallback: (entryIndex: number, repeat: number, sceneIndex: number) => void = () => {};
+let songEndCallback: () => void = () => {};
+
+// -- Tempo --
+// The scene tempo, and a temporary bend on top of it for beat matching (e.g. 0.04 = 4% faster)
+let currentBpm = 120;
+let tempoNudge = 0;
+
+// -- Metronome & Count-in --
+const METRONOME_VOICES: Record<MetronomeSound, { type: 'square' | 'sine' | 'triangle'; decay: number; accent: string; beat: string }> = {
+  click: { type: 'square', decay: 0.02, accent: 'C7', beat: 'C6' },
+  beep: { type: 'sine', decay: 0.08, accent: 'A6', beat: 'A5' },
+  wood: { type: 'triangle', decay: 0.04, accent: 'E6', beat: 'B5' },
+};
+let metronomeEnabled = false;
+let metronomeSound: MetronomeSound = 'click';
+let countInBars = 0;
+// 16ths of count-in left before the pattern starts
+let countInTicks = 0;
+let countInCallback: (beat: number | null) => void = () => {};
+
+/**
+ * Click on each beat of the meter, accenting the downbeat
+ */
+const playClick = ({ beat, offset }: StepPosition, time: number) => {
+  if (offset !== 0) return;
+  const voice = METRONOME_VOICES[metronomeSound];
+  metronome.triggerAttackRelease(beat === 0 ? voice.accent : voice.beat, voice.decay, time, beat === 0 ? 1 : 0.6);
+};
+
+// -- Scene Launch Queue --
+// A scene picked during playback waits here until the quantize boundary
+let queuedSceneIndex: number | null = null;
+let queuedQuantize: LaunchQuantize = 'bar';
+let sceneLaunchCallback: (sceneIndex: number) => void = () => {};
+
+const isLaunchBoundary = (patternTick: number, quantize: LaunchQuantize): boolean => {
+  switch (quantize) {
+    case 'immediate': return true;
+    case 'beat': return getPatternPosition(patternTick, currentPatternLength, currentStepGrouping).offset === 0;
+    case 'bar': {
+      const { beat, offset } = getPatternPosition(patternTick, currentPatternLength, currentStepGrouping);
+      return beat === 0 && offset === 0;
+    }
+    case 'pattern': return patternTick % currentPatternLength === 0;
+  }
+};
+
+/**
+ * Whether the song or a queued launch will swap scenes at this tick.
+ * Early-nudged steps are not scheduled across a scene change.
+ */
+const sceneChangesAt = (tick: number): boolean => {
+  const patternTick = tick - sceneStartTick;
+  if (songModeEnabled && !songFinished && patternTick % currentPatternLength === 0) {
+    // Repeats of the same entry keep the scene, so only its last pass hands over
+    const entry = currentSong.entries[songEntryIndex];
+    if (songNeedsCue || !entry || songRepeat + 1 >= entry.repeats) return true;
+  }
+  return queuedSceneIndex !== null && isLaunchBoundary(patternTick, queuedQuantize);
+};
+
+/**
+ * Advance the song by one pattern repetition.
+ * Returns the scene to switch to, null to keep playing the current one, or 'end' when the song is over.
+ */
+const advanceSong = (): Scene | null | 'end' => {
+  const entry = currentSong.entries[songEntryIndex];
+  if (!entry) return 'end';
+
+  songRepeat++;
+  if (songRepeat < entry.repeats) return null;
+
+  songRepeat = 0;
+  if (currentSong.loopEnabled && songEntryIndex === currentSong.loopEnd) {
+    songEntryIndex = currentSong.loopStart;
+  } else {
+    songEntryIndex++;
+  }
+
+  const next = currentSong.entries[songEntryIndex];
+  if (!next) return 'end';
+  return currentScenes[next.sceneIndex] ?? null;
+};
+
+// -- Choke Groups --
+// Fade applied to a choked track, short enough to cut the tail without clicking
+const CHOKE_FADE = 0.005;
+let currentChokeGroups: Partial<Record<Instrument, number | null>> = { hihat: 1, openhat: 1 };
+
+// Choke gain changes still ahead of the audio clock, per track. Trigs aren't scheduled in time order,
+// so cancelling from an earlier time has to put the later ones back.
+const chokeEvents: Partial<Record<Instrument, { time: number; open: boolean }[]>> = {};
+
+const scheduleChoke = (inst: Instrument, time: number, open: boolean) => {
+  const gain = channels[inst].choke.gain;
+  const now = Tone.now();
+  const events = (chokeEvents[inst] ?? []).filter(event => event.time + CHOKE_FADE >= now);
+  events.push({ time, open });
+  events.sort((a, b) => a.time - b.time);
+  chokeEvents[inst] = events;
+
+  gain.cancelScheduledValues(time);
+  events.forEach(event => {
+    if (event.time < time) return;
+    if (event.open) {
+      gain.setValueAtTime(1, event.time);
+    } else {
+      gain.setValueAtTime(gain.getValueAtTime(event.time), event.time);
+      gain.linearRampToValueAtTime(0, event.time + CHOKE_FADE);
+    }
+  });
+};
+
+/**
+ * Open the track's own choke gain at `time` and fade out every other track in its choke group
+ */
+const chokeTrack = (inst: Instrument, time: number) => {
+  scheduleChoke(inst, time, true);
+
+  const group = currentChokeGroups[inst];
+  if (!group) return;
+  INSTRUMENTS.forEach(other => {
+    if (other === inst || currentChokeGroups[other] !== group) return;
+    scheduleChoke(other, time, false);
+  });
+};
+
+/**
+ * Play the scene's sample from the start to the end point, at the track pitch plus the step's offset
+ */
+const playSample = (step: number, time: number, velocity: number) => {
+  const buffers = currentSampleId ? samplerBuffers.get(currentSampleId) : undefined;
+  const start = Math.min(samplerStart, samplerEnd);
+  const end = Math.max(samplerStart, samplerEnd);
+  if (!buffers || end <= start) return;
+
+  const length = buffers.forward.duration;
+  const rate = Math.pow(2, (samplerPitch + (currentSamplerPitches[step] ?? 0)) / 12);
+  const source = new Tone.ToneBufferSource({
+    url: samplerReverse ? buffers.reversed : buffers.forward,
+    playbackRate: rate,
+    fadeIn: samplerAttack,
+    fadeOut: samplerRelease,
+    // Setting onended makes the source dispose itself once it has stopped
+    onended: () => {}
+  }).connect(samplerVol);
+  // Reversed, the region is read from the other end of the buffer
+  const offset = (samplerReverse ? 1 - end : start) * length;
+  source.start(time, offset, ((end - start) * length) / rate, velocity);
+};
+
+/**
+ * Play the step's slice of the slicer sample. A slice index past the last slice wraps around.
+ */
+const playSlice = (step: number, time: number, velocity: number) => {
+  const points = currentSlicerSampleId ? getSlicePoints(currentSlicerSampleId, currentSliceMode, currentSliceCount) : null;
+  const buffers = currentSlicerSampleId ? samplerBuffers.get(currentSlicerSampleId) : undefined;
+  if (!points || !buffers) return;
+
+  const slice = (currentSlicerSlices[step] ?? 0) % points.length;
+  const length = buffers.forward.duration;
+  const start = points[slice] * length;
+  const end = (points[slice + 1] ?? 1) * length;
+  const rate = Math.pow(2, slicerPitch / 12);
+  const source = new Tone.ToneBufferSource({
+    url: buffers.forward,
+    playbackRate: rate,
+    fadeIn: slicerAttack,
+    fadeOut: slicerRelease,
+    onended: () => {}
+  }).connect(slicerVol);
+  source.start(time, start, (end - start) / rate, velocity);
+};
+
+// -- Arpeggiator --
+// A trig on an arpeggiated track starts a run over its chord. The loop schedules the run's notes
+// a 16th at a time, so a new trig, a stop or a settings change takes over from the next note.
+interface ArpRun {
+  sequence: number[]; // MIDI notes in play order
+  index: number;
+  nextTime: number; // Audio time of the next note
+  endTime: number; // No notes from here on; Infinity while latched
+  velocity: number;
+}
+let currentArps: Record<ArpInstrument, ArpSettings> = { pad: { ...DEFAULT_ARP }, poly: { ...DEFAULT_ARP } };
+let arpRuns: Partial<Record<ArpInstrument, ArpRun>> = {};
+
+const startArp = (inst: ArpInstrument, notes: number[], time: number, duration: number, velocity: number) => {
+  const arp = currentArps[inst];
+  arpRuns[inst] = {
+    sequence: getArpSequence(notes, arp.mode, arp.octaves),
+    index: 0,
+    nextTime: time,
+    endTime: arp.latch ? Infinity : time + duration,
+    velocity,
+  };
+};
+
+/**
+ * Schedule the arp notes due before `until`. Notes still advance while the track is muted,
+ * so unmuting picks the run up in time.
+ */
+const scheduleArps = (until: number, isAudible: (inst: Instrument) => boolean) => {
+  ARP_INSTRUMENTS.forEach(inst => {
+    const run = arpRuns[inst];
+    const arp = currentArps[inst];
+    if (!run) return;
+    if (!arp.enabled || run.sequence.length === 0) {
+      delete arpRuns[inst];
+      return;
+    }
+    const interval = Tone.Time(arp.rate).toSeconds();
+    while (run.nextTime < until && run.nextTime < run.endTime) {
+      const note = arp.mode === 'random'
+        ? run.sequence[Math.floor(Math.random() * run.sequence.length)]
+        : run.sequence[run.index % run.sequence.length];
+      if (isAudible(inst)) {
+        const name = Tone.Frequency(note, 'midi').toNote();
+        if (inst === 'pad') triggerPadVoices([name], interval * arp.gate, run.nextTime, run.velocity);
+        else triggerPoly([name], interval * arp.gate, run.nextTime, run.velocity);
+      }
+      run.index++;
+      run.nextTime += interval;
+    }
+    if (run.nextTime >= run.endTime) delete arpRuns[inst];
+  });
+};
+
+// Fire a single instrument voice for the given step
+/**
+ * Play one hit of a track. `duration` (seconds) sets the melodic note length: the gate, or a ratchet sub-hit.
+ */
+const triggerVoice = (inst: Instrument, step: number, time: number, velocity: number, duration?: number) => {
+  chokeTrack(inst, time);
+  switch (inst) {
+    case 'kick':
+      kick.triggerAttackRelease('C1', '8n', time, velocity);
+      break;
+    case 'snare':
+      snare.triggerAttackRelease('8n', time, velocity);
+      break;
+    case 'hihat':
+      hihat.triggerAttackRelease('C6', '8n', time, velocity);
+      break;
+    case 'openhat':
+      openhat.triggerAttackRelease('C6', '4n', time, velocity);
+      break;
+    case 'clap':
+      clap.triggerAttackRelease('8n', time, velocity);
+      break;
+    case 'lowtom':
+    case 'midtom':
+    case 'hightom':
+      toms[inst].triggerAttackRelease(tomTunes[inst], '8n', time, velocity);
+      break;
+    case 'rimshot':
+      rimshotLow.triggerAttackRelease(rimshotTune, '32n', time, velocity);
+      rimshotHigh.triggerAttackRelease(rimshotTune * RIMSHOT_RATIO, '32n', time, velocity * 0.5);
+      break;
+    case 'cowbell':
+      cowbellLow.triggerAttackRelease(cowbellTune, '16n', time, velocity);
+      cowbellHigh.triggerAttackRelease(cowbellTune * COWBELL_RATIO, '16n', time, velocity);
+      break;
+    case 'ride':
+      ride.triggerAttackRelease('C6', '4n', time, velocity);
+      break;
+    case 'crash':
+      crash.triggerAttackRelease('C6', '2n', time, velocity);
+      break;
+    case 'sampler':
+      playSample(step, time, velocity);
+      break;
+    case 'slicer':
+      playSlice(step, time, velocity);
+      break;
+    case 'kick909':
+      kick909.triggerAttackRelease(kick909Tune, '8n', time, velocity);
+      if (kick909ClickLevel > 0) kick909Click.triggerAttackRelease('32n', time, velocity * kick909ClickLevel);
+      break;
+    case 'snare909':
+      snare909Low.triggerAttackRelease(snare909Tune, '16n', time, velocity);
+      snare909High.triggerAttackRelease(snare909Tune * SNARE_909_RATIO, '16n', time, velocity * 0.6);
+      if (snare909Snappy > 0) snare909Noise.triggerAttackRelease('8n', time, velocity * snare909Snappy);
+      break;
+    case 'hihat909':
+      hihat909.triggerAttackRelease('C6', '16n', time, velocity);
+      break;
+    case 'clap909':
+      for (let i = 0; i < CLAP_909_BURSTS; i++) {
+        clap909Burst.triggerAttackRelease(CLAP_909_BURST_GAP, time + i * CLAP_909_BURST_GAP, velocity);
+      }
+      clap909Tail.triggerAttackRelease('8n', time + CLAP_909_BURSTS * CLAP_909_BURST_GAP, velocity * 0.8);
+      break;
+    case 'bass': {
+      const note = Tone.Frequency(currentBassPitches[step], "midi").toNote();
+      bass.portamento = 0;
+      bass.envelope.sustain = 0;
+      bass.triggerAttackRelease(note, duration ?? '16n', time, accentBass(step, velocity));
+      break;
+    }
+    case 'pad': {
+      const notes = getPadNotes(step);
+      // Live hits have no length to arpeggiate over, so they play the chord
+      if (currentArps.pad.enabled && duration !== undefined) {
+        startArp('pad', notes.map(n => Tone.Frequency(n).toMidi()), time, duration, velocity);
+      } else {
+        triggerPadVoices(notes, duration ?? '8n', time, velocity);
+      }
+      break;
+    }
+    case 'poly': {
+      const notes = currentPolyNotes[step];
+      if (notes && notes.length > 0) {
+        if (currentArps.poly.enabled && duration !== undefined) {
+          startArp('poly', notes, time, duration, velocity);
+          break;
+        }
+        const noteNames = notes.map(n => Tone.Frequency(n, "midi").toNote());
+        triggerPoly(noteNames, duration ?? '8n', time, velocity);
+      }
+      break;
+    }
+    case 'fm': {
+      const notes = currentFmNotes[step];
+      if (notes && notes.length > 0) {
+        fmSynth.triggerNotes(notes, duration ?? Tone.Time('8n').toSeconds(), time, velocity);
+      }
+      break;
+    }
+  }
+};
+
+/**
+ * Setters for lockable params, by "instrument.param" path.
+ * Signals are ramped at `time`; envelope and other plain properties are read when the
+ * voice is triggered, so setting them just before triggerVoice is sample accurate.
+ */
+const PARAM_LOCK_SETTERS: Record<string, (val: number, time: number) => void> = {
+  'kick.tune': val => AudioEngine.setKickPitchDecay(val),
+  'kick.decay': val => AudioEngine.setKickDecay(val),
+  'kick.distortion': (val, time) => {
+    kickDistortion.distortion = val;
+    kickDistortion.wet.setValueAtTime(val > 0 ? 1 : 0, time);
+  },
+  'snare.tone': (val, time) => snareFilter.frequency.setValueAtTime(val, time),
+  'snare.snappy': val => AudioEngine.setSnareDecay(val),
+  'hihat.decay': val => AudioEngine.setHiHatDecay(val),
+  'hihat.tone': (val, time) => hatFilter.frequency.setValueAtTime(val, time),
+  'openhat.decay': val => AudioEngine.setOpenHatDecay(val),
+  'openhat.tone': (val, time) => openhatFilter.frequency.setValueAtTime(val, time),
+  'clap.decay': val => AudioEngine.setClapDecay(val),
+  'clap.tone': (val, time) => clapFilter.frequency.setValueAtTime(val, time),
+  'lowtom.tune': val => AudioEngine.setTomTune('lowtom', val),
+  'lowtom.decay': val => AudioEngine.setTomDecay('lowtom', val),
+  'midtom.tune': val => AudioEngine.setTomTune('midtom', val),
+  'midtom.decay': val => AudioEngine.setTomDecay('midtom', val),
+  'hightom.tune': val => AudioEngine.setTomTune('hightom', val),
+  'hightom.decay': val => AudioEngine.setTomDecay('hightom', val),
+  'rimshot.tune': val => AudioEngine.setRimshotTune(val),
+  'rimshot.decay': val => AudioEngine.setRimshotDecay(val),
+  'cowbell.tune': val => AudioEngine.setCowbellTune(val),
+  'cowbell.decay': val => AudioEngine.setCowbellDecay(val),
+  'ride.decay': val => AudioEngine.setRideDecay(val),
+  'ride.tone': (val, time) => rideFilter.frequency.setValueAtTime(val, time),
+  'crash.decay': val => AudioEngine.setCrashDecay(val),
+  'crash.tone': (val, time) => crashFilter.frequency.setValueAtTime(val, time),
+  'sampler.start': val => AudioEngine.setSamplerStart(val),
+  'sampler.end': val => AudioEngine.setSamplerEnd(val),
+  'sampler.pitch': val => AudioEngine.setSamplerPitch(val),
+  'sampler.reverse': val => AudioEngine.setSamplerReverse(val),
+  'sampler.attack': val => AudioEngine.setSamplerAttack(val),
+  'sampler.release': val => AudioEngine.setSamplerRelease(val),
+  'slicer.pitch': val => AudioEngine.setSlicerPitch(val),
+  'slicer.attack': val => AudioEngine.setSlicerAttack(val),
+  'slicer.release': val => AudioEngine.setSlicerRelease(val),
+  'kick909.tune': val => AudioEngine.setKick909Tune(val),
+  'kick909.sweep': val => AudioEngine.setKick909Sweep(val),
+  'kick909.decay': val => AudioEngine.setKick909Decay(val),
+  'kick909.click': val => AudioEngine.setKick909Click(val),
+  'snare909.tune': val => AudioEngine.setSnare909Tune(val),
+  'snare909.tone': (val, time) => snare909NoiseFilter.frequency.setValueAtTime(val, time),
+  'snare909.snappy': val => AudioEngine.setSnare909Snappy(val),
+  'snare909.decay': val => AudioEngine.setSnare909Decay(val),
+  'hihat909.decay': val => AudioEngine.setHiHat909Decay(val),
+  'hihat909.tone': (val, time) => hihat909Filter.frequency.setValueAtTime(val, time),
+  'clap909.decay': val => AudioEngine.setClap909Decay(val),
+  'clap909.tone': (val, time) => clap909Filter.frequency.setValueAtTime(val, time),
+  'bass.cutoff': val => AudioEngine.setBassCutoff(val),
+  'bass.resonance': (val, time) => bass.filter.Q.setValueAtTime(val, time),
+  'bass.envMod': val => AudioEngine.setBassEnvMod(val),
+  'bass.decay': val => AudioEngine.setBassDecay(val),
+  'pad.attack': val => AudioEngine.setPadAttack(val),
+  'pad.release': val => AudioEngine.setPadRelease(val),
+  'pad.cutoff': (val, time) => padFilter.frequency.setValueAtTime(val, time),
+  'pad.detune': val => AudioEngine.setPadDetune(val),
+  'pad.distortion': val => AudioEngine.setPadDistortion(val),
+  'poly.attack': val => AudioEngine.setPolyAttack(val),
+  'poly.decay': val => AudioEngine.setPolyDecay(val),
+  'poly.sustain': val => AudioEngine.setPolySustain(val),
+  'poly.release': val => AudioEngine.setPolyRelease(val),
+  'poly.filter': (val, time) => polyFilter.frequency.setValueAtTime(val, time),
+  'poly.detune': val => AudioEngine.setPolyDetune(val),
+  // Every fm operator param, as 'fm.op1Ratio' ... 'fm.op4Release'
+  ...Object.fromEntries(
+    Array.from({ length: MAX_FM_OPERATORS }, (_, i) => FM_OPERATOR_PARAMS.map(param => [
+      `fm.op${i + 1}${param}`,
+      (val: number) => AudioEngine.setFMOperatorParam(i + 1, param, val),
+    ])).flat()
+  ),
+};
+
+const getBaseParam = (path: string): number | undefined => {
+  const [inst, param] = path.split('.');
+  const values = currentParams?.[inst as keyof InstrumentParams] as Record<string, unknown> | undefined;
+  const value = values?.[param];
+  return typeof value === 'number' ? value : undefined;
+};
+
+/**
+ * Apply a trig's parameter locks. A lock holds until the track's next trig,
+ * which either sets its own lock or puts the scene value back.
+ */
+const applyParamLocks = (inst: Instrument, step: number, time: number) => {
+  Object.keys(PARAM_LOCK_SETTERS).forEach(path => {
+    if (!path.startsWith(`${inst}.`)) return;
+    const value = currentParamLocks[path]?.[step];
+    if (value !== undefined) {
+      PARAM_LOCK_SETTERS[path](value, time);
+      lockedPaths.add(path);
+    } else if (lockedPaths.has(path)) {
+      const base = getBaseParam(path);
+      if (base !== undefined) PARAM_LOCK_SETTERS[path](base, time);
+      lockedPaths.delete(path);
+    }
+  });
+};
+
+const revertParamLocks = () => {
+  lockedPaths.forEach(path => {
+    const base = getBaseParam(path);
+    if (base !== undefined) PARAM_LOCK_SETTERS[path](base, Tone.now());
+  });
+  lockedPaths.clear();
+};
+
+/**
+ * Restart playheads from a scene's first step. Track ticks restart too, so a held slide is let go.
+ */
+const restartScene = (tick: number, time: number) => {
+  sceneStartTick = tick;
+  earlyScheduled.clear();
+  if (bassSlideTick !== null) {
+    bass.triggerRelease(time);
+    bassSlideTick = null;
+  }
 };
-let setStepCallback: (step: number) => void = () => {};
 
 // -- Loop --
-const loop = new Tone.Sequence(
-  (time, step) => {
+const loop = new Tone.Loop(
+  (time) => {
+    // Count-in: click through the bars before the pattern, with the playhead parked on step 1.
+    // lastTick runs negative so a hit just before the downbeat still records onto step 1.
+    if (countInTicks > 0) {
+      const countTick = countInBars * getBarLength(currentStepGrouping) - countInTicks;
+      lastTick = -countInTicks;
+      lastTickTime = time;
+      countInTicks--;
+      const { beat, offset } = getStepPosition(countTick, currentStepGrouping);
+      playClick({ bar: 0, beat, offset }, time);
+      if (offset === 0) Tone.Draw.schedule(() => countInCallback(beat + 1), time);
+      if (countInTicks === 0) Tone.Draw.schedule(() => countInCallback(null), time + Tone.Time('16n').toSeconds());
+      return;
+    }
+
+    const tick = currentTick++;
+    lastTick = tick;
+    lastTickTime = time;
+
+    // Song mode: move through the arrangement at each pattern boundary
+    const patternTick = tick - sceneStartTick;
+    if (songModeEnabled && !songFinished && patternTick > 0 && patternTick % currentPatternLength === 0) {
+      let next: Scene | null | 'end';
+      if (songNeedsCue) {
+        songNeedsCue = false;
+        next = currentScenes[currentSong.entries[songEntryIndex]?.sceneIndex] ?? 'end';
+      } else {
+        next = advanceSong();
+      }
+      if (next === 'end') {
+        songFinished = true;
+        Tone.Draw.schedule(() => songEndCallback(), time);
+      } else {
+        if (next) {
+          applyScene(next, time);
+          restartScene(tick, time);
+        }
+        const entryIndex = songEntryIndex;
+        const repeat = songRepeat;
+        const sceneIndex = currentSong.entries[entryIndex].sceneIndex;
+        Tone.Draw.schedule(() => songPositionCallback(entryIndex, repeat, sceneIndex), time);
+      }
+    }
+    if (songFinished) return;
+
+    // Queued scene launch: applied here so the switch lands exactly on the boundary
+    if (queuedSceneIndex !== null && isLaunchBoundary(tick - sceneStartTick, queuedQuantize)) {
+      const sceneIndex = queuedSceneIndex;
+      const scene = currentScenes[sceneIndex];
+      queuedSceneIndex = null;
+      if (scene) {
+        applyScene(scene, time);
+        // Bar and pattern launches start the new scene from its first step;
+        // beat and immediate launches keep the running position so the groove stays on the grid
+        if (queuedQuantize === 'bar' || queuedQuantize === 'pattern') restartScene(tick, time);
+        Tone.Draw.schedule(() => sceneLaunchCallback(sceneIndex), time);
+      }
+    }
+
+    if (metronomeEnabled) playClick(getPatternPosition(tick - sceneStartTick, currentPatternLength, currentStepGrouping), time);
+
     // Determine if any track is soloed
     const isAnySolo = Object.values(currentSolos).some(v => v);
 
@@ -390,46 +1380,290 @@ const loop = new Tone.Sequence(
       return !currentMutes[inst];
     };
 
-    // 1. Trigger Sounds
-    // Velocity: 0-127 -> 0.0-1.0
-    const getVel = (inst: Instrument) => (currentVelocities[inst]?.[step] ?? 100) / 127;
+    const sixteenth = Tone.Time('16n').toSeconds();
+    const subtick = sixteenth / SUBTICKS_PER_SIXTEENTH;
+    // Never more than a 16th early, which is as far ahead as steps are scheduled
+    const timingOffset = (inst: Instrument, step: number, trackTick: number) =>
+      Math.max(-1, getTimingOffset(inst, step, trackTick) / 100) * sixteenth;
+
+    // 303 slide: a sliding note is held, and the next bass trig glides to its pitch without retriggering
+    const playBassStep = (step: number, trackTick: number, at: number, velocity: number, gate: number) => {
+      const slideIn = bassSlideTick === trackTick;
+      const slideOut = currentBassSlides[step];
+      bassSlideTick = slideOut ? trackTick + 1 : null;
+      if (!slideIn && !slideOut) {
+        triggerVoice('bass', step, at, velocity, gate);
+        return;
+      }
 
-    if (shouldPlay('kick') && currentGrid.kick[step]) kick.triggerAttackRelease('C1', '8n', time, getVel('kick'));
-    if (shouldPlay('snare') && currentGrid.snare[step]) snare.triggerAttackRelease('8n', time, getVel('snare'));
-    // Hihat already used 0.6 fixed, now use dynamic
-    if (shouldPlay('hihat') && currentGrid.hihat[step]) hihat.triggerAttackRelease('C6', '8n', time, getVel('hihat'));
-    if (shouldPlay('clap') && currentGrid.clap[step]) clap.triggerAttackRelease('8n', time, getVel('clap'));
-    
-    // Trigger Bass
-    if (shouldPlay('bass') && currentGrid.bass[step]) {
       const note = Tone.Frequency(currentBassPitches[step], "midi").toNote();
-      bass.triggerAttackRelease(note, '16n', time, getVel('bass'));
-    }
+      if (slideIn) {
+        bass.portamento = SLIDE_TIME;
+        bass.setNote(note, at);
+      } else {
+        bass.portamento = 0;
+        bass.envelope.sustain = SLIDE_SUSTAIN;
+        bass.triggerAttack(note, at, accentBass(step, velocity));
+      }
+      if (!slideOut) bass.triggerRelease(at + gate);
+    };
 
-    if (shouldPlay('pad') && currentGrid.pad[step]) {
-      // Use cached note names
-      const chordNotes = currentPadNoteNames[step];
-      triggerPadVoices(chordNotes, '8n', time, getVel('pad'));
-    }
+    const playStep = (inst: Instrument, step: number, trackTick: number, at: number) => {
+      if (!shouldPlay(inst) || !currentGrid[inst]?.[step]) return;
+      if (!evaluateTrig(inst, step, trackTick)) return;
+      applyParamLocks(inst, step, at);
+
+      // Gates and ratchets are measured in the track's own steps
+      const stepDuration = getStepSubticks(inst) * subtick;
+      // Velocity: 0-127 -> 0.0-1.0, shaped by the groove
+      const velocity = Math.min(1, ((currentVelocities[inst]?.[step] ?? 100) / 127) * getGrooveVelocity(inst, trackTick));
+      const ratchets = currentRatchets[inst]?.[step] ?? 1;
+      if (ratchets <= 1) {
+        if (!isGated(inst)) {
+          triggerVoice(inst, step, at, velocity);
+          return;
+        }
+        // A tied step keeps the earlier note sounding
+        const gate = getTiedGate(inst, step);
+        if (gate === null) return;
+        if (inst === 'bass') playBassStep(step, trackTick, at, velocity, gate * stepDuration);
+        else triggerVoice(inst, step, at, velocity, gate * stepDuration);
+        return;
+      }
 
-    // Trigger Poly
-    if (shouldPlay('poly') && currentGrid.poly[step]) {
-      const notes = currentPolyNotes[step];
-      if (notes && notes.length > 0) {
-        const noteNames = notes.map(n => Tone.Frequency(n, "midi").toNote());
-        triggerPoly(noteNames, '8n', time, getVel('poly'));
+      // Ratcheted bass steps always retrigger, so they end any slide
+      if (inst === 'bass') bassSlideTick = null;
+
+      // Ratchets: evenly spaced sub-hits inside the step
+      const subDuration = stepDuration / ratchets;
+      const ramp = currentRatchetRamps[inst]?.[step] ?? 'flat';
+      for (let i = 0; i < ratchets; i++) {
+        const scale = ramp === 'up' ? (i + 1) / ratchets : ramp === 'down' ? (ratchets - i) / ratchets : 1;
+        triggerVoice(inst, step, at + i * subDuration, velocity * scale, subDuration);
       }
-    }
+    };
+
+    // 1. Trigger Sounds: each track plays the steps that start inside this 16th, at its own resolution
+    const windowStart = (tick - sceneStartTick) * SUBTICKS_PER_SIXTEENTH;
+    const nextWindowStart = windowStart + SUBTICKS_PER_SIXTEENTH;
+    const lookAhead = !sceneChangesAt(tick + 1);
+    const nextTime = time + sixteenth;
+    // Sub-ticks within this 16th where some track moves to a new step
+    const stepPositions = new Set<number>([0]);
+    INSTRUMENTS.forEach(inst => {
+      const length = getStepSubticks(inst);
+      getTrackTicksIn(inst, windowStart).forEach(trackTick => {
+        const step = getTrackStep(inst, trackTick);
+        const position = trackTick * length - windowStart;
+        const gridTime = time + position * subtick;
+        stepPositions.add(position);
+
+        // Steps sounding before this 16th were already played from the previous one.
+        // An early step with nothing before it (transport start, scene change) plays on the grid.
+        const key = `${inst}:${trackTick}`;
+        const offset = position * subtick + timingOffset(inst, step, trackTick);
+        if (earlyScheduled.has(key)) {
+          earlyScheduled.delete(key);
+        } else {
+          playStep(inst, step, trackTick, offset < 0 ? gridTime : time + offset);
+        }
+
+        // A slide with no bass trig to glide into ends here
+        if (inst === 'bass' && bassSlideTick !== null && bassSlideTick <= trackTick) {
+          bass.triggerRelease(gridTime);
+          bassSlideTick = null;
+        }
+      });
+
+      // Steps pulled ahead of the next 16th must be scheduled from this one
+      if (!lookAhead) return;
+      getTrackTicksIn(inst, nextWindowStart).forEach(trackTick => {
+        const step = getTrackStep(inst, trackTick);
+        const offset = (trackTick * length - nextWindowStart) * subtick + timingOffset(inst, step, trackTick);
+        if (offset < 0) {
+          earlyScheduled.add(`${inst}:${trackTick}`);
+          playStep(inst, step, trackTick, nextTime + offset);
+        }
+      });
+    });
 
-    // 2. Update UI
-    Tone.Draw.schedule(() => {
-      setStepCallback(step);
-    }, time);
+    scheduleArps(nextTime, shouldPlay);
+
+    // Transport position, counted in the scene's meter; bars restart with the pattern
+    const { beat, offset } = getPatternPosition(tick - sceneStartTick, currentPatternLength, currentStepGrouping);
+    if (tick === 0) startTime = time;
+    if (beat === 0 && offset === 0) barCount++;
+    const transportPosition: TransportPosition = {
+      bar: Math.max(1, barCount),
+      beat: beat + 1,
+      sixteenth: offset + 1,
+      loop: Math.floor((tick - sceneStartTick) / currentPatternLength) + 1,
+      elapsed: time - startTime,
+    };
+    Tone.Draw.schedule(() => positionCallback(transportPosition), time);
+
+    // 2. Update UI wherever a track advances, so 32nd and triplet playheads light every step.
+    // The shared playhead still moves in 16ths.
+    const patternStep = (tick - sceneStartTick) % currentPatternLength;
+    stepPositions.forEach(position => {
+      const trackSteps = {} as Record<Instrument, number>;
+      INSTRUMENTS.forEach(inst => {
+        trackSteps[inst] = getTrackStep(inst, Math.floor((windowStart + position) / getStepSubticks(inst)));
+      });
+      Tone.Draw.schedule(() => setStepCallback(patternStep, trackSteps), time + position * subtick);
+    });
   },
-  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
   "16n"
 );
 
+/**
+ * Push everything a scene holds into the engine.
+ * When a time is given (song mode), tempo changes are scheduled at that time.
+ */
+const applyScene = (scene: Scene, time?: number) => {
+  currentGrid = scene.grid;
+  currentBassPitches = scene.bassPitches;
+  currentBassAccents = scene.bassAccents;
+  currentBassSlides = scene.bassSlides;
+  currentPadPitches = scene.padPitches;
+  currentPadVoicings = scene.padVoicings as ChordType[];
+  currentPadInversions = scene.padInversions;
+  currentPadSpread = scene.padSpread;
+  padVoiceLeading = scene.padVoiceLeading;
+  updatePadCache();
+  currentArps = scene.arps;
+  currentPolyNotes = scene.polyNotes;
+  currentFmNotes = scene.fmNotes;
+  currentGates = scene.gates;
+  currentVelocities = scene.velocities;
+  currentProbabilities = scene.probabilities;
+  currentConditions = scene.conditions;
+  currentNudges = scene.nudges;
+  currentParamLocks = scene.paramLocks;
+  currentRatchets = scene.ratchets;
+  currentRatchetRamps = scene.ratchetRamps;
+  currentTrackLengths = scene.trackLengths;
+  currentTrackResolutions = scene.trackResolutions;
+  currentPatternLength = scene.patternLength;
+  currentStepGrouping = scene.stepGrouping;
+
+  if (time !== undefined) {
+    currentBpm = scene.bpm;
+    Tone.Transport.bpm.setValueAtTime(currentBpm * (1 + tempoNudge), time);
+  } else {
+    AudioEngine.setBpm(scene.bpm);
+  }
+  AudioEngine.setSwing(scene.swing);
+  globalGrooveId = scene.groove;
+  currentTrackGrooves = scene.trackGrooves;
+  currentTrackSwing = scene.trackSwing;
+  currentChokeGroups = scene.chokeGroups;
+  currentSampleId = scene.sample?.id ?? null;
+  currentSamplerPitches = scene.samplerPitches;
+  currentSlicerSampleId = scene.slicerSample?.id ?? null;
+  currentSliceMode = scene.slicerMode;
+  currentSliceCount = scene.slicerCount;
+  currentSlicerSlices = scene.slicerSlices;
+
+  (Object.keys(scene.mutes) as Instrument[]).forEach(inst => {
+    AudioEngine.setMute(inst, scene.mutes[inst]);
+    AudioEngine.setSolo(inst, scene.solos[inst]);
+    AudioEngine.setVolume(inst, scene.volumes[inst], time);
+    AudioEngine.setReverbSend(inst, scene.reverbSends[inst], time);
+    AudioEngine.setDelaySend(inst, scene.delaySends[inst], time);
+
+    const eq = scene.eqGains[inst];
+    AudioEngine.setChannelEQ(inst, 'low', eq.low, time);
+    AudioEngine.setChannelEQ(inst, 'mid', eq.mid, time);
+    AudioEngine.setChannelEQ(inst, 'high', eq.high, time);
+  });
+
+  const p = scene.params;
+  currentParams = p;
+  lockedPaths.clear();
+
+  if (time !== undefined) {
+    // A queued launch goes through the lock setters, which move signals at the launch time.
+    // Envelope and routing properties are read when a note starts, and the outgoing scene's
+    // notes are already scheduled, so those can change now.
+    Object.keys(PARAM_LOCK_SETTERS).forEach(path => {
+      const base = getBaseParam(path);
+      if (base !== undefined) PARAM_LOCK_SETTERS[path](base, time);
+    });
+    AudioEngine.setFMAlgorithm(p.fm.algorithm);
+    AudioEngine.setFMOperators(p.fm.operators);
+    // The waveform switches on sounding voices too, so wait for the launch
+    Tone.Draw.schedule(() => AudioEngine.setPolyOscillator(p.poly.oscillator || 'square'), time);
+    return;
+  }
+
+  AudioEngine.setKickPitchDecay(p.kick.tune);
+  AudioEngine.setKickDecay(p.kick.decay);
+  AudioEngine.setKickDistortion(p.kick.distortion || 0);
+  AudioEngine.setSnareTone(p.snare.tone);
+  AudioEngine.setSnareDecay(p.snare.snappy);
+  AudioEngine.setHiHatDecay(p.hihat.decay);
+  AudioEngine.setHiHatTone(p.hihat.tone);
+  AudioEngine.setOpenHatDecay(p.openhat.decay);
+  AudioEngine.setOpenHatTone(p.openhat.tone);
+  AudioEngine.setClapDecay(p.clap.decay);
+  AudioEngine.setClapTone(p.clap.tone);
+  TOMS.forEach(tom => {
+    AudioEngine.setTomTune(tom, p[tom].tune);
+    AudioEngine.setTomDecay(tom, p[tom].decay);
+  });
+  AudioEngine.setRimshotTune(p.rimshot.tune);
+  AudioEngine.setRimshotDecay(p.rimshot.decay);
+  AudioEngine.setCowbellTune(p.cowbell.tune);
+  AudioEngine.setCowbellDecay(p.cowbell.decay);
+  AudioEngine.setRideDecay(p.ride.decay);
+  AudioEngine.setRideTone(p.ride.tone);
+  AudioEngine.setCrashDecay(p.crash.decay);
+  AudioEngine.setCrashTone(p.crash.tone);
+  AudioEngine.setSamplerStart(p.sampler.start);
+  AudioEngine.setSamplerEnd(p.sampler.end);
+  AudioEngine.setSamplerPitch(p.sampler.pitch);
+  AudioEngine.setSamplerReverse(p.sampler.reverse);
+  AudioEngine.setSamplerAttack(p.sampler.attack);
+  AudioEngine.setSamplerRelease(p.sampler.release);
+  AudioEngine.setSlicerPitch(p.slicer.pitch);
+  AudioEngine.setSlicerAttack(p.slicer.attack);
+  AudioEngine.setSlicerRelease(p.slicer.release);
+  AudioEngine.setKick909Tune(p.kick909.tune);
+  AudioEngine.setKick909Sweep(p.kick909.sweep);
+  AudioEngine.setKick909Decay(p.kick909.decay);
+  AudioEngine.setKick909Click(p.kick909.click);
+  AudioEngine.setSnare909Tune(p.snare909.tune);
+  AudioEngine.setSnare909Tone(p.snare909.tone);
+  AudioEngine.setSnare909Snappy(p.snare909.snappy);
+  AudioEngine.setSnare909Decay(p.snare909.decay);
+  AudioEngine.setHiHat909Decay(p.hihat909.decay);
+  AudioEngine.setHiHat909Tone(p.hihat909.tone);
+  AudioEngine.setClap909Decay(p.clap909.decay);
+  AudioEngine.setClap909Tone(p.clap909.tone);
+  AudioEngine.setBassCutoff(p.bass.cutoff);
+  AudioEngine.setBassResonance(p.bass.resonance);
+  AudioEngine.setBassEnvMod(p.bass.envMod);
+  AudioEngine.setBassDecay(p.bass.decay);
+  AudioEngine.setPadAttack(p.pad.attack);
+  AudioEngine.setPadRelease(p.pad.release);
+  AudioEngine.setPadFilterCutoff(p.pad.cutoff);
+  AudioEngine.setPadDetune(p.pad.detune);
+  AudioEngine.setPadDistortion(p.pad.distortion);
+  AudioEngine.setPolyAttack(p.poly.attack);
+  AudioEngine.setPolyDecay(p.poly.decay);
+  AudioEngine.setPolySustain(p.poly.sustain);
+  AudioEngine.setPolyRelease(p.poly.release);
+  AudioEngine.setPolyFilter(p.poly.filter);
+  AudioEngine.setPolyDetune(p.poly.detune);
+  AudioEngine.setPolyOscillator(p.poly.oscillator || 'square');
+  AudioEngine.setFMAlgorithm(p.fm.algorithm);
+  AudioEngine.setFMOperators(p.fm.operators);
+  for (let op = 1; op <= MAX_FM_OPERATORS; op++) {
+    FM_OPERATOR_PARAMS.forEach(param => AudioEngine.setFMOperatorParam(op, param, p.fm[`op${op}${param}` as FMOperatorKey]));
+  }
+};
+
 export const AudioEngine = {
   init: async () => {
     await Tone.start();
@@ -444,6 +1678,14 @@ export const AudioEngine = {
     currentBassPitches = pitches;
   },
 
+  updateBassAccents: (accents: boolean[]) => {
+    currentBassAccents = accents;
+  },
+
+  updateBassSlides: (slides: boolean[]) => {
+    currentBassSlides = slides;
+  },
+
   updatePadPitches: (pitches: number[]) => {
     currentPadPitches = pitches;
     updatePadCache();
@@ -453,17 +1695,240 @@ export const AudioEngine = {
     currentVelocities = velocities;
   },
 
+  updateProbabilities: (probabilities: Record<Instrument, number[]>) => {
+    currentProbabilities = probabilities;
+  },
+
+  updateConditions: (conditions: Record<Instrument, TrigCondition[]>) => {
+    currentConditions = conditions;
+  },
+
+  updateParams: (params: InstrumentParams) => {
+    currentParams = params;
+  },
+
+  updateParamLocks: (locks: ParamLocks) => {
+    currentParamLocks = locks;
+  },
+
+  updateGates: (gates: Record<GatedInstrument, number[]>) => {
+    currentGates = gates;
+  },
+
+  updateNudges: (nudges: Record<Instrument, number[]>) => {
+    currentNudges = nudges;
+  },
+
+  updateRatchets: (ratchets: Record<Instrument, number[]>, ramps: Record<Instrument, RatchetRamp[]>) => {
+    currentRatchets = ratchets;
+    currentRatchetRamps = ramps;
+  },
+
+  setFill: (active: boolean) => {
+    fillActive = active;
+  },
+
+  /**
+   * Play a track straight away, for record monitoring and the on-screen pads.
+   * Bass and poly play the given MIDI note instead of a step's pitch.
+   */
+  playLive: (inst: Instrument, velocity: number, note?: number) => {
+    const now = Tone.now();
+    if (inst === 'bass' && note !== undefined) {
+      bass.portamento = 0;
+      bass.envelope.sustain = 0;
+      bass.filterEnvelope.octaves = bassEnvMod;
+      bass.triggerAttackRelease(Tone.Frequency(note, "midi").toNote(), '16n', now, velocity);
+    } else if (inst === 'poly' && note !== undefined) {
+      triggerPoly([Tone.Frequency(note, "midi").toNote()], '8n', now, velocity);
+    } else {
+      triggerVoice(inst, 0, now, velocity);
+    }
+  },
+
+  /**
+   * Where a live hit lands on a track: the nearest step, and how far from it the hit was in percent of a 16th
+   * (negative when early). Measured on the audio clock, so it matches what was heard. Null while stopped.
+   */
+  getRecordPosition: (inst: Instrument): { step: number; offset: number } | null => {
+    if (loop.state !== 'started' || lastTickTime === null) return null;
+    const sixteenth = Tone.Time('16n').toSeconds();
+    const sixteenths = lastTick - sceneStartTick + (Tone.context.currentTime - lastTickTime) / sixteenth;
+    const position = (sixteenths * SUBTICKS_PER_SIXTEENTH) / getStepSubticks(inst);
+    const trackTick = Math.round(position);
+    // Too early in the count-in to belong to the first step
+    if (trackTick < 0) return null;
+    const length = currentTrackLengths[inst] || DEFAULT_TRACK_LENGTH;
+    return {
+      step: ((trackTick % length) + length) % length,
+      offset: ((position - trackTick) * getStepSubticks(inst) / SUBTICKS_PER_SIXTEENTH) * 100,
+    };
+  },
+
   updatePadVoicings: (voicings: string[]) => {
-    currentPadVoicings = voicings as PadVoicing[];
+    currentPadVoicings = voicings as ChordType[];
+    updatePadCache();
+  },
+
+  updatePadInversions: (inversions: number[]) => {
+    currentPadInversions = inversions;
+    updatePadCache();
+  },
+
+  /**
+   * Set the pad's chord spread and whether consecutive chords are voice-led
+   */
+  updatePadChordStyle: (spread: ChordSpread, voiceLeading: boolean) => {
+    currentPadSpread = spread;
+    padVoiceLeading = voiceLeading;
     updatePadCache();
   },
 
+  updateArps: (arps: Record<ArpInstrument, ArpSettings>) => {
+    currentArps = arps;
+  },
+
   updatePolyNotes: (notes: number[][]) => {
     currentPolyNotes = notes;
   },
 
+  updateFmNotes: (notes: number[][]) => {
+    currentFmNotes = notes;
+  },
+
+  updateSamplerPitches: (pitches: number[]) => {
+    currentSamplerPitches = pitches;
+  },
+
+  /**
+   * Pick the sample the sampler track plays (null for none)
+   */
+  updateSample: (id: string | null) => {
+    currentSampleId = id;
+  },
+
+  updateSlicerSlices: (slices: number[]) => {
+    currentSlicerSlices = slices;
+  },
+
+  /**
+   * Pick the sample the slicer track cuts up (null for none)
+   */
+  updateSlicerSample: (id: string | null) => {
+    currentSlicerSampleId = id;
+  },
+
+  /**
+   * Set how the slicer cuts its sample: `count` equal slices, or at up to `count` transients
+   */
+  updateSlicing: (mode: SliceMode, count: number) => {
+    currentSliceMode = mode;
+    currentSliceCount = count;
+  },
+
+  /**
+   * Start of each slice (0-1 of the sample), or null while the sample isn't decoded
+   */
+  getSlicePoints: (id: string, mode: SliceMode, count: number): number[] | null => getSlicePoints(id, mode, count),
+
+  /**
+   * Peak levels across a decoded sample for drawing it, or null while it isn't decoded
+   */
+  getWaveform: (id: string, bins: number): number[] | null => {
+    const buffers = samplerBuffers.get(id);
+    return buffers ? getWaveformPeaks(buffers.forward.toMono().getChannelData(0), bins) : null;
+  },
+
+  /**
+   * Decode a sample's audio for the sampler and slicer tracks. Calling again with the same id reuses the first decode.
+   */
+  loadSample: (id: string, data: ArrayBuffer): Promise<void> => {
+    const pending = samplerLoads.get(id);
+    if (pending) return pending;
+    // decodeAudioData detaches the buffer it is given, so decode a copy
+    const load = Tone.getContext().decodeAudioData(data.slice(0)).then(audio => {
+      const forward = new Tone.ToneAudioBuffer(audio);
+      const reversed = Tone.ToneAudioBuffer.fromArray(
+        Array.from({ length: audio.numberOfChannels }, (_, c) => audio.getChannelData(c).slice().reverse())
+      );
+      samplerBuffers.set(id, { forward, reversed });
+    });
+    // A failed decode can be retried
+    load.catch(() => samplerLoads.delete(id));
+    samplerLoads.set(id, load);
+    return load;
+  },
+
+  updateTrackLengths: (lengths: Record<Instrument, number>) => {
+    currentTrackLengths = lengths;
+  },
+
+  updateTrackResolutions: (resolutions: Record<Instrument, StepResolution>) => {
+    currentTrackResolutions = resolutions;
+  },
+
+  updatePatternLength: (length: number) => {
+    currentPatternLength = length;
+  },
+
+  updateStepGrouping: (grouping: StepGrouping) => {
+    currentStepGrouping = grouping;
+  },
+
+  loadScene: (scene: Scene) => {
+    applyScene(scene);
+  },
+
+  // -- Scene Launching --
+  queueScene: (sceneIndex: number, quantize: LaunchQuantize) => {
+    queuedSceneIndex = sceneIndex;
+    queuedQuantize = quantize;
+  },
+
+  cancelQueuedScene: () => {
+    queuedSceneIndex = null;
+  },
+
+  onSceneLaunch: (cb: (sceneIndex: number) => void) => {
+    sceneLaunchCallback = cb;
+  },
+
+  // -- Song Mode --
+  updateScenes: (scenes: Scene[]) => {
+    currentScenes = scenes;
+  },
+
+  updateSong: (song: Song) => {
+    currentSong = song;
+  },
+
+  setSongMode: (enabled: boolean) => {
+    songModeEnabled = enabled;
+    songEntryIndex = currentSong.loopEnabled ? currentSong.loopStart : 0;
+    songRepeat = 0;
+    songFinished = false;
+    songNeedsCue = enabled && loop.state === 'started';
+  },
+
+  onSongPosition: (cb: (entryIndex: number, repeat: number, sceneIndex: number) => void) => {
+    songPositionCallback = cb;
+  },
+
+  onSongEnd: (cb: () => void) => {
+    songEndCallback = cb;
+  },
+
   setBpm: (bpm: number) => {
-    Tone.Transport.bpm.value = bpm;
+    currentBpm = bpm;
+    Tone.Transport.bpm.value = currentBpm * (1 + tempoNudge);
+  },
+
+  /**
+   * Bend the tempo without changing the scene BPM (0 returns to it)
+   */
+  setTempoNudge: (amount: number) => {
+    tempoNudge = amount;
+    Tone.Transport.bpm.value = currentBpm * (1 + tempoNudge);
   },
 
   togglePlay: (isPlaying: boolean) => {
@@ -472,20 +1937,81 @@ export const AudioEngine = {
       // Guard against double-start
       if (loop.state === 'started') return;
       
+      currentTick = 0;
+      lastTickTime = null;
+      sceneStartTick = 0;
+      // Songs start from the loop start when looping, otherwise from the top
+      songEntryIndex = currentSong.loopEnabled ? currentSong.loopStart : 0;
+      songRepeat = 0;
+      songFinished = false;
+      songNeedsCue = false;
+      queuedSceneIndex = null;
+      lastTrigResults = {};
+      earlyScheduled.clear();
+      countInTicks = countInBars * getBarLength(currentStepGrouping);
+      barCount = 0;
+      lastPadChord = null;
       Tone.Transport.start();
       loop.start(0);
     } else {
       Tone.Transport.stop();
       loop.stop();
+      revertParamLocks();
+      if (countInTicks > 0) {
+        countInTicks = 0;
+        countInCallback(null);
+      }
+      // Let go of a note held by a slide
+      bass.triggerRelease();
+      bassSlideTick = null;
+      arpRuns = {};
       // Reset step visual
-      setStepCallback(0); 
+      const resetSteps = {} as Record<Instrument, number>;
+      INSTRUMENTS.forEach(inst => { resetSteps[inst] = 0; });
+      setStepCallback(0, resetSteps);
+      positionCallback(null);
     }
   },
 
-  onStep: (cb: (step: number) => void) => {
+  onStep: (cb: (step: number, trackSteps: Record<Instrument, number>) => void) => {
     setStepCallback = cb;
   },
 
+  /**
+   * Called on every 16th with the transport position, and with null when the transport stops
+   */
+  onPosition: (cb: (position: TransportPosition | null) => void) => {
+    positionCallback = cb;
+  },
+
+  setMetronome: (enabled: boolean) => {
+    metronomeEnabled = enabled;
+  },
+
+  setMetronomeVolume: (db: number) => {
+    metronomeVol.volume.value = db;
+  },
+
+  setMetronomeSound: (sound: MetronomeSound) => {
+    metronomeSound = sound;
+    metronome.oscillator.type = METRONOME_VOICES[sound].type;
+    metronome.envelope.decay = METRONOME_VOICES[sound].decay;
+  },
+
+  /**
+   * Bars of clicks before the pattern starts, applied the next time the transport starts (0 for none)
+   */
+  setCountIn: (bars: number) => {
+    countInBars = bars;
+  },
+
+  /**
+   * Called with the beat number (from 1) on each count-in beat, and with null when the pattern starts
+   */
+  onCountIn: (cb: (beat: number | null) => void) => {
+    countInCallback = cb;
+  },
+
   resetMutesSolos: () => {
     // Reset internal engine state for mutes/solos to defaults
     // This allows a clean sync from React
@@ -499,9 +2025,34 @@ export const AudioEngine = {
 
   // -- Parameters --
   setSwing: (value: number) => {
-    // Tone.Transport.swing = 0 to 1
-    Tone.Transport.swing = value;
-    Tone.Transport.swingSubdivision = '16n';
+    // 0 to 1, applied per track in the loop (see getTimingOffset)
+    globalSwing = value;
+  },
+
+  setGroove: (id: string) => {
+    globalGrooveId = id;
+  },
+
+  updateTrackGrooves: (grooves: Record<Instrument, string | null>) => {
+    currentTrackGrooves = grooves;
+  },
+
+  updateTrackSwing: (swing: Record<Instrument, number | null>) => {
+    currentTrackSwing = swing;
+  },
+
+  /**
+   * Tracks sharing a choke group cut each other off; null leaves a track out
+   */
+  updateChokeGroups: (groups: Record<Instrument, number | null>) => {
+    currentChokeGroups = groups;
+  },
+
+  /**
+   * Register the user groove templates alongside the built-in ones
+   */
+  updateGrooves: (grooves: GrooveTemplate[]) => {
+    grooveTemplates = Object.fromEntries([...BUILT_IN_GROOVES, ...grooves].map(g => [g.id, g]));
   },
 
   // Kick
@@ -532,6 +2083,14 @@ export const AudioEngine = {
     hatFilter.frequency.value = val;
   },
 
+  // Open HiHat
+  setOpenHatDecay: (val: number) => {
+    openhat.envelope.decay = val;
+  },
+  setOpenHatTone: (val: number) => {
+    openhatFilter.frequency.value = val;
+  },
+
   // Clap
   setClapDecay: (val: number) => {
     clap.envelope.decay = val;
@@ -540,6 +2099,125 @@ export const AudioEngine = {
     clapFilter.frequency.value = val;
   },
 
+  // Toms
+  setTomTune: (tom: Tom, val: number) => {
+    tomTunes[tom] = val;
+  },
+  setTomDecay: (tom: Tom, val: number) => {
+    toms[tom].envelope.decay = val;
+  },
+
+  // Rimshot
+  setRimshotTune: (val: number) => {
+    rimshotTune = val;
+  },
+  setRimshotDecay: (val: number) => {
+    rimshotLow.envelope.decay = val;
+    rimshotHigh.envelope.decay = val;
+  },
+
+  // Cowbell
+  setCowbellTune: (val: number) => {
+    cowbellTune = val;
+  },
+  setCowbellDecay: (val: number) => {
+    cowbellLow.envelope.decay = val;
+    cowbellHigh.envelope.decay = val;
+  },
+
+  // Ride
+  setRideDecay: (val: number) => {
+    ride.envelope.decay = val;
+  },
+  setRideTone: (val: number) => {
+    rideFilter.frequency.value = val;
+  },
+
+  // Crash
+  setCrashDecay: (val: number) => {
+    crash.envelope.decay = val;
+  },
+  setCrashTone: (val: number) => {
+    crashFilter.frequency.value = val;
+  },
+
+  // Sampler: start/end are 0-1 of the sample length
+  setSamplerStart: (val: number) => {
+    samplerStart = val;
+  },
+  setSamplerEnd: (val: number) => {
+    samplerEnd = val;
+  },
+  setSamplerPitch: (val: number) => {
+    samplerPitch = val;
+  },
+  setSamplerReverse: (val: number) => {
+    samplerReverse = val >= 0.5;
+  },
+  setSamplerAttack: (val: number) => {
+    samplerAttack = val;
+  },
+  setSamplerRelease: (val: number) => {
+    samplerRelease = val;
+  },
+
+  // Slicer
+  setSlicerPitch: (val: number) => {
+    slicerPitch = val;
+  },
+  setSlicerAttack: (val: number) => {
+    slicerAttack = val;
+  },
+  setSlicerRelease: (val: number) => {
+    slicerRelease = val;
+  },
+
+  // 909 Kick
+  setKick909Tune: (val: number) => {
+    kick909Tune = val;
+  },
+  setKick909Sweep: (val: number) => {
+    kick909.pitchDecay = val;
+  },
+  setKick909Decay: (val: number) => {
+    kick909.envelope.decay = val;
+  },
+  setKick909Click: (val: number) => {
+    kick909ClickLevel = val;
+  },
+
+  // 909 Snare
+  setSnare909Tune: (val: number) => {
+    snare909Tune = val;
+  },
+  setSnare909Tone: (val: number) => {
+    snare909NoiseFilter.frequency.value = val;
+  },
+  setSnare909Snappy: (val: number) => {
+    snare909Snappy = val;
+  },
+  setSnare909Decay: (val: number) => {
+    snare909Low.envelope.decay = val * 0.6;
+    snare909High.envelope.decay = val * 0.4;
+    snare909Noise.envelope.decay = val;
+  },
+
+  // 909 HiHat
+  setHiHat909Decay: (val: number) => {
+    hihat909.envelope.decay = val;
+  },
+  setHiHat909Tone: (val: number) => {
+    hihat909Filter.frequency.value = val;
+  },
+
+  // 909 Clap
+  setClap909Decay: (val: number) => {
+    clap909Tail.envelope.decay = val;
+  },
+  setClap909Tone: (val: number) => {
+    clap909Filter.frequency.value = val;
+  },
+
   // Bass (303) Controls
   setBassCutoff: (val: number) => {
     // In MonoSynth, the filter envelope baseFrequency sets the cutoff
@@ -554,6 +2232,7 @@ export const AudioEngine = {
     bass.filterEnvelope.decay = val;
   },
   setBassEnvMod: (val: number) => {
+    bassEnvMod = val;
     bass.filterEnvelope.octaves = val;
   },
   /* Deprecated: using per-step pitch now
@@ -614,76 +2293,53 @@ export const AudioEngine = {
     poly.set({ oscillator: { type } });
   },
 
+  // FM Controls
+  setFMAlgorithm: (index: number) => {
+    fmSynth.setAlgorithm(index);
+  },
+  setFMOperators: (count: number) => {
+    fmSynth.setOperatorCount(count);
+  },
+  // Operators are numbered from 1, as in the UI and the params
+  setFMOperatorParam: (op: number, param: FMOperatorParam, val: number) => {
+    fmSynth.setOperatorParam(op - 1, param, val);
+  },
+
   // 3-Band EQ Per Channel
   // band: 'low' | 'mid' | 'high', val: gain in dB (-12 to +12)
-  setChannelEQ: (inst: Instrument, band: 'low' | 'mid' | 'high', val: number) => {
-    const eqMap: Record<string, ChannelEQ> = {
-      kick: kickEQ,
-      snare: snareEQ,
-      hihat: hihatEQ,
-      clap: clapEQ,
-      bass: bassEQ,
-      pad: padEQ,
-      poly: polyEQ
-    };
-    const eq = eqMap[inst];
+  // The mix setters take an optional audio time, for changes that land with a queued scene launch
+  setChannelEQ: (inst: Instrument, band: 'low' | 'mid' | 'high', val: number, time?: number) => {
+    const eq = channels[inst]?.eq;
     if (!eq) return;
     
     // Tone.Filter with shelf/peaking types supports .gain property
-    if (band === 'low') eq.low.set({ gain: val });
-    if (band === 'mid') eq.mid.set({ gain: val });
-    if (band === 'high') eq.high.set({ gain: val });
+    const filter = band === 'low' ? eq.low : band === 'mid' ? eq.mid : eq.high;
+    if (time === undefined) filter.set({ gain: val });
+    else filter.gain.setValueAtTime(val, time);
   },
 
   // Volume
-  setVolume: (inst: Instrument, val: number) => {
-    const volMap: Partial<Record<Instrument, Tone.Volume>> = {
-      kick: kickVol,
-      snare: snareVol,
-      hihat: hihatVol,
-      clap: clapVol,
-      bass: bassVol,
-      pad: padVol,
-      poly: polyVol
-    };
-    const volNode = volMap[inst];
-    if (volNode) {
-      volNode.volume.value = val;
-    }
+  setVolume: (inst: Instrument, val: number, time?: number) => {
+    const volNode = channels[inst]?.vol;
+    if (!volNode) return;
+    if (time === undefined) volNode.volume.value = val;
+    else volNode.volume.setValueAtTime(val, time);
   },
 
   // Rev/Delay Sends
-  setReverbSend: (inst: Instrument, val: number) => {
-     const sendMap: Partial<Record<Instrument, Tone.Gain>> = {
-       kick: kickReverbSend,
-       snare: snareReverbSend,
-       hihat: hihatReverbSend,
-       clap: clapReverbSend,
-       bass: bassReverbSend,
-       pad: padReverbSend,
-       poly: polyReverbSend
-     };
-     const sendNode = sendMap[inst];
+  setReverbSend: (inst: Instrument, val: number, time?: number) => {
+     const sendNode = channels[inst]?.reverbSend;
      if (!sendNode) return;
 
      const linear = (typeof val !== 'number' || isNaN(val) || val <= -60) ? 0 : Tone.dbToGain(val);
-     sendNode.gain.rampTo(linear, 0.05);
-  },
-  setDelaySend: (inst: Instrument, val: number) => {
-     const sendMap: Partial<Record<Instrument, Tone.Gain>> = {
-       kick: kickDelaySend,
-       snare: snareDelaySend,
-       hihat: hihatDelaySend,
-       clap: clapDelaySend,
-       bass: bassDelaySend,
-       pad: padDelaySend,
-       poly: polyDelaySend
-     };
-     const sendNode = sendMap[inst];
+     sendNode.gain.rampTo(linear, 0.05, time);
+  },
+  setDelaySend: (inst: Instrument, val: number, time?: number) => {
+     const sendNode = channels[inst]?.delaySend;
      if (!sendNode) return;
 
      const linear = (typeof val !== 'number' || isNaN(val) || val <= -60) ? 0 : Tone.dbToGain(val);
-     sendNode.gain.rampTo(linear, 0.05);
+     sendNode.gain.rampTo(linear, 0.05, time);
   },
 
   // Visualizer
@@ -0,0 +1,139 @@
+import * as Tone from 'tone';
+import type { FMOperatorParam } from '../types';
+import { FM_ALGORITHMS, MAX_FM_OPERATORS, MIN_FM_OPERATORS } from '../types';
+
+// Notes the synth can hold at once; the voice that frees up first is stolen beyond that
+const VOICE_COUNT = 6;
+
+interface Operator {
+  osc: Tone.Oscillator;
+  env: Tone.AmplitudeEnvelope;
+  level: Tone.Gain; // Output level for a carrier, frequency deviation in Hz for a modulator
+}
+
+interface OperatorSettings {
+  ratio: number;
+  level: number;
+}
+
+/**
+ * One note of the FM synth: MAX_FM_OPERATORS sine oscillators, each with its own envelope.
+ * A modulator's output is added to its target's frequency; carriers go to the voice output.
+ */
+class FMVoice {
+  public output: Tone.Gain;
+  public busyUntil = 0;
+
+  private operators: Operator[];
+
+  constructor() {
+    this.output = new Tone.Gain(1);
+    this.operators = Array.from({ length: MAX_FM_OPERATORS }, () => {
+      const osc = new Tone.Oscillator({ type: 'sine', frequency: 440 });
+      const env = new Tone.AmplitudeEnvelope();
+      const level = new Tone.Gain(0);
+      osc.chain(env, level);
+      osc.start();
+      return { osc, env, level };
+    });
+  }
+
+  // Rewire the operators; ones past `count` are left unconnected and stay silent
+  public route(modulates: (number | null)[], count: number) {
+    this.operators.forEach((op, i) => {
+      op.level.disconnect();
+      if (i >= count) return;
+      const target = modulates[i];
+      if (target === null || target === undefined || target >= count) op.level.connect(this.output);
+      else op.level.connect(this.operators[target].osc.frequency);
+    });
+  }
+
+  public setEnvelope(op: number, stage: 'attack' | 'decay' | 'sustain' | 'release', val: number) {
+    this.operators[op].env[stage] = val;
+  }
+
+  public trigger(freq: number, settings: OperatorSettings[], carriers: boolean[], duration: number, time: number, velocity: number) {
+    this.operators.forEach((op, i) => {
+      const { ratio, level } = settings[i];
+      const opFreq = freq * ratio;
+      op.osc.frequency.setValueAtTime(opFreq, time);
+      // A modulator's level is its index: deviation scales with its own frequency so the timbre holds across the keyboard.
+      // A carrier is held to full scale, since a level set as an index carries over when the algorithm changes.
+      const gain = carriers[i] ? Math.min(1, Math.max(0, level)) * velocity : level * opFreq;
+      op.level.gain.setValueAtTime(gain, time);
+      op.env.triggerAttackRelease(duration, time);
+    });
+    const release = Math.max(...this.operators.map(op => Tone.Time(op.env.release).toSeconds()));
+    this.busyUntil = time + duration + release;
+  }
+}
+
+/**
+ * Polyphonic 2-4 operator FM synth for the fm track.
+ * Operator settings are numbered from 0 here (operator 1 is index 0).
+ */
+export class FMSynth {
+  public output: Tone.Gain;
+
+  private voices: FMVoice[];
+  private algorithm = 0;
+  private operatorCount = MIN_FM_OPERATORS;
+  private settings: OperatorSettings[] = Array.from({ length: MAX_FM_OPERATORS }, () => ({ ratio: 1, level: 0 }));
+
+  constructor() {
+    // Carriers are summed, so leave some headroom
+    this.output = new Tone.Gain(0.5);
+    this.voices = Array.from({ length: VOICE_COUNT }, () => {
+      const voice = new FMVoice();
+      voice.output.connect(this.output);
+      return voice;
+    });
+    this.route();
+  }
+
+  private route() {
+    const { modulates } = FM_ALGORITHMS[this.algorithm];
+    this.voices.forEach(voice => voice.route(modulates, this.operatorCount));
+  }
+
+  // Operators feeding the output for the current algorithm and operator count
+  private getCarriers(): boolean[] {
+    const { modulates } = FM_ALGORITHMS[this.algorithm];
+    return modulates.map(target => target === null || target >= this.operatorCount);
+  }
+
+  public setAlgorithm(index: number) {
+    const algorithm = Math.max(0, Math.min(FM_ALGORITHMS.length - 1, Math.round(index)));
+    if (algorithm === this.algorithm) return;
+    this.algorithm = algorithm;
+    this.route();
+  }
+
+  public setOperatorCount(count: number) {
+    const operatorCount = Math.max(MIN_FM_OPERATORS, Math.min(MAX_FM_OPERATORS, Math.round(count)));
+    if (operatorCount === this.operatorCount) return;
+    this.operatorCount = operatorCount;
+    this.route();
+  }
+
+  public setOperatorParam(op: number, param: FMOperatorParam, val: number) {
+    switch (param) {
+      case 'Ratio': this.settings[op].ratio = val; break;
+      case 'Level': this.settings[op].level = val; break;
+      case 'Attack': this.voices.forEach(voice => voice.setEnvelope(op, 'attack', val)); break;
+      case 'Decay': this.voices.forEach(voice => voice.setEnvelope(op, 'decay', val)); break;
+      case 'Sustain': this.voices.forEach(voice => voice.setEnvelope(op, 'sustain', val)); break;
+      case 'Release': this.voices.forEach(voice => voice.setEnvelope(op, 'release', val)); break;
+    }
+  }
+
+  // Play MIDI notes, one voice each
+  public triggerNotes(notes: number[], duration: number, time: number, velocity: number) {
+    const carriers = this.getCarriers();
+    notes.forEach(note => {
+      const voice = this.voices.reduce((free, v) => (v.busyUntil < free.busyUntil ? v : free));
+      voice.trigger(Tone.Frequency(note, 'midi').toFrequency(), this.settings, carriers, duration, time, velocity);
+    });
+  }
+}
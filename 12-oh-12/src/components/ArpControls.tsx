@@ -0,0 +1,76 @@
+import type { ArpSettings, ArpMode, StepResolution } from '../types';
+import { ARP_MODES, STEP_RESOLUTIONS, MAX_ARP_OCTAVES } from '../types';
+import { ARP_MODE_LABELS } from '../utils/arp';
+import { RESOLUTION_LABELS } from '../utils/steps';
+import { ScrollableSelect } from './ScrollableSelect';
+import { ScrollableSlider } from './ScrollableSlider';
+
+interface ArpControlsProps {
+  arp: ArpSettings;
+  onChange: (arp: ArpSettings) => void;
+}
+
+/**
+ * Arpeggiator settings for a chord track, laid out as track param items
+ */
+export function ArpControls({ arp, onChange }: ArpControlsProps) {
+  const update = (changes: Partial<ArpSettings>) => onChange({ ...arp, ...changes });
+
+  return (
+    <>
+      <div className="param-item">
+        <label>Arp</label>
+        <button
+          className={`arp-btn ${arp.enabled ? 'active' : ''}`}
+          onClick={() => update({ enabled: !arp.enabled })}
+          title="Arpeggiate each step's chord over its gate"
+        >
+          ARP
+        </button>
+      </div>
+      <div className="param-item">
+        <label>Mode</label>
+        <ScrollableSelect className="note-select" value={arp.mode} onChange={e => update({ mode: e.target.value as ArpMode })}>
+          {ARP_MODES.map(mode => (
+            <option key={mode} value={mode}>{ARP_MODE_LABELS[mode]}</option>
+          ))}
+        </ScrollableSelect>
+      </div>
+      <div className="param-item">
+        <label>Rate</label>
+        <ScrollableSelect className="note-select" value={arp.rate} onChange={e => update({ rate: e.target.value as StepResolution })}>
+          {STEP_RESOLUTIONS.map(rate => (
+            <option key={rate} value={rate}>{RESOLUTION_LABELS[rate]}</option>
+          ))}
+        </ScrollableSelect>
+      </div>
+      <div className="param-item">
+        <label>Oct</label>
+        <ScrollableSelect
+          className="note-select"
+          value={arp.octaves}
+          onChange={e => update({ octaves: Number(e.target.value) })}
+          onWheel={e => update({ octaves: Math.max(1, Math.min(MAX_ARP_OCTAVES, arp.octaves + (e.deltaY > 0 ? -1 : 1))) })}
+        >
+          {Array.from({ length: MAX_ARP_OCTAVES }, (_, i) => (
+            <option key={i + 1} value={i + 1}>{i + 1}</option>
+          ))}
+        </ScrollableSelect>
+      </div>
+      <div className="param-item">
+        <label>Arp Gate</label>
+        <ScrollableSlider min={0.05} max={1} step={0.05} value={arp.gate} onChange={e => update({ gate: Number(e.target.value) })} />
+      </div>
+      <div className="param-item">
+        <label>Latch</label>
+        <button
+          className={`arp-btn ${arp.latch ? 'active' : ''}`}
+          onClick={() => update({ latch: !arp.latch })}
+          title="Keep arpeggiating until the track's next trig"
+        >
+          LATCH
+        </button>
+      </div>
+    </>
+  );
+}
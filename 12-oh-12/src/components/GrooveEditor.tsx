@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import type { GrooveTemplate } from '../types';
+import { MAX_GROOVE_STEPS } from '../types';
+import { MAX_GROOVE_TIMING, MAX_GROOVE_VELOCITY } from '../utils/grooves';
+import { ScrollableSlider } from './ScrollableSlider';
+import { ScrollableSelect } from './ScrollableSelect';
+
+interface GrooveEditorProps {
+  groove: GrooveTemplate;
+  canDelete: boolean;
+  onSave: (groove: GrooveTemplate) => void;
+  onDelete: (id: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Edit a user groove: per-step timing (percent of a 16th) and velocity (percent) over a 1-16 step cycle
+ */
+export const GrooveEditor: React.FC<GrooveEditorProps> = ({
+  groove,
+  canDelete,
+  onSave,
+  onDelete,
+  onCancel
+}) => {
+  const [draft, setDraft] = useState<GrooveTemplate>(groove);
+
+  // Lengthening the cycle repeats the existing steps so the feel carries over
+  const setLength = (length: number) => {
+    setDraft(prev => ({
+      ...prev,
+      timing: Array.from({ length }, (_, i) => prev.timing[i % prev.timing.length]),
+      velocity: Array.from({ length }, (_, i) => prev.velocity[i % prev.velocity.length]),
+    }));
+  };
+
+  const setStep = (field: 'timing' | 'velocity', index: number, value: number) => {
+    setDraft(prev => ({ ...prev, [field]: prev[field].map((v, i) => (i === index ? value : v)) }));
+  };
+
+  return (
+    <div className="import-modal-overlay" onClick={onCancel}>
+      <div className="import-modal groove-editor" onClick={e => e.stopPropagation()}>
+        <h2>Groove</h2>
+        <p className="import-modal-info">
+          Timing moves each step by a percentage of a 16th; velocity scales the step's own velocity.
+        </p>
+
+        <div className="groove-editor-header">
+          <input
+            className="groove-name-input"
+            value={draft.name}
+            onChange={e => setDraft(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="Groove name"
+          />
+          <ScrollableSelect
+            className="length-select"
+            value={draft.timing.length}
+            title="Groove length (steps)"
+            onChange={e => setLength(Number(e.target.value))}
+            onWheel={e => {
+              const next = draft.timing.length + (e.deltaY > 0 ? 1 : -1);
+              if (next >= 1 && next <= MAX_GROOVE_STEPS) setLength(next);
+            }}
+          >
+            {Array.from({ length: MAX_GROOVE_STEPS }, (_, i) => (
+              <option key={i + 1} value={i + 1}>{i + 1}</option>
+            ))}
+          </ScrollableSelect>
+        </div>
+
+        <div className="groove-steps">
+          {draft.timing.map((timing, i) => (
+            <div key={i} className="groove-step">
+              <label>{i + 1}</label>
+              <ScrollableSlider
+                className="vertical-slider groove-slider"
+                min={-MAX_GROOVE_TIMING}
+                max={MAX_GROOVE_TIMING}
+                step={1}
+                value={timing}
+                title={`Timing ${timing > 0 ? '+' : ''}${timing}%`}
+                onChange={e => setStep('timing', i, Number(e.target.value))}
+              />
+              <span className="groove-value">{timing > 0 ? '+' : ''}{timing}</span>
+              <ScrollableSlider
+                className="vertical-slider groove-slider"
+                min={0}
+                max={MAX_GROOVE_VELOCITY}
+                step={5}
+                value={draft.velocity[i]}
+                title={`Velocity ${draft.velocity[i]}%`}
+                onChange={e => setStep('velocity', i, Number(e.target.value))}
+              />
+              <span className="groove-value">{draft.velocity[i]}%</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="import-modal-actions">
+          {canDelete && (
+            <button className="btn-secondary" onClick={() => onDelete(draft.id)}>
+              Delete
+            </button>
+          )}
+          <button className="btn-secondary" onClick={onCancel}>
+            Cancel
+          </button>
+          <button className="btn-primary" onClick={() => onSave(draft)} disabled={!draft.name.trim()}>
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
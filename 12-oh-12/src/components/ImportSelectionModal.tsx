@@ -4,7 +4,7 @@ import type { ProjectFile, Scene } from '../types';
 interface ImportSelectionModalProps {
   projectFile: ProjectFile;
   currentScenes: Scene[];
-  onConfirm: (selectedIndices: number[], importProSettings: boolean) => void;
+  onConfirm: (selectedIndices: number[], importProSettings: boolean, importSong: boolean, importGrooves: boolean) => void;
   onCancel: () => void;
 }
 
@@ -18,6 +18,8 @@ export const ImportSelectionModal: React.FC<ImportSelectionModalProps> = ({
     new Array(projectFile.scenes.length).fill(true)
   );
   const [importProSettings, setImportProSettings] = useState(!!projectFile.proModeParams);
+  const [importSong, setImportSong] = useState(!!projectFile.song);
+  const [importGrooves, setImportGrooves] = useState(!!projectFile.grooves?.length);
 
   const toggleSelection = (index: number) => {
     setSelected(prev => {
@@ -34,7 +36,7 @@ export const ImportSelectionModal: React.FC<ImportSelectionModalProps> = ({
     const indices = selected
       .map((isSelected, idx) => (isSelected ? idx : -1))
       .filter(idx => idx !== -1);
-    onConfirm(indices, importProSettings);
+    onConfirm(indices, importProSettings, importSong, importGrooves);
   };
 
   const formatDate = (timestamp: number) => {
@@ -67,6 +69,38 @@ export const ImportSelectionModal: React.FC<ImportSelectionModalProps> = ({
           </div>
         )}
 
+        {projectFile.song && (
+          <div className="scene-checkbox-list" style={{ marginBottom: '12px' }}>
+            <label className="scene-checkbox-item">
+              <input 
+                type="checkbox" 
+                checked={importSong}
+                onChange={e => setImportSong(e.target.checked)}
+              />
+              <span className="scene-slot">SONG</span>
+              <span className="scene-names">
+                <span className="scene-from">Song Arrangement ({projectFile.song.entries.length} entries)</span>
+              </span>
+            </label>
+          </div>
+        )}
+
+        {!!projectFile.grooves?.length && (
+          <div className="scene-checkbox-list" style={{ marginBottom: '12px' }}>
+            <label className="scene-checkbox-item">
+              <input 
+                type="checkbox" 
+                checked={importGrooves}
+                onChange={e => setImportGrooves(e.target.checked)}
+              />
+              <span className="scene-slot">GRV</span>
+              <span className="scene-names">
+                <span className="scene-from">Groove Templates ({projectFile.grooves.length})</span>
+              </span>
+            </label>
+          </div>
+        )}
+
         <div className="import-modal-actions-top">
           <button onClick={selectAll}>Select All</button>
           <button onClick={selectNone}>Select None</button>
@@ -103,7 +137,7 @@ export const ImportSelectionModal: React.FC<ImportSelectionModalProps> = ({
           <button
             className="btn-primary"
             onClick={handleConfirm}
-            disabled={!anySelected && !importProSettings}
+            disabled={!anySelected && !importProSettings && !importSong && !importGrooves}
           >
             Import Selected ({selected.filter(Boolean).length})
           </button>
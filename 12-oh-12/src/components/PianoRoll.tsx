@@ -1,11 +1,17 @@
 
 import React, { useRef, useEffect, useState } from 'react';
 import { midiToNoteName } from './NoteStepper';
+import { GATE_OPTIONS, MAX_GATE } from '../types';
+import { formatGate } from '../utils/steps';
 
 interface PianoRollProps {
   currentStep: number;
   steps: number[][]; // Array of steps, each containing MIDI notes (0-127)
+  length: number; // Track length; steps beyond it are dimmed
+  groups: number[][]; // Visible step indices, grouped by beat
+  gates: number[]; // Note length per step, in steps
   onChange: (stepIndex: number, notes: number[]) => void;
+  onGateChange: (stepIndex: number, gate: number) => void;
   minNote?: number; // Lowest MIDI note to show (default 36 C2)
   maxNote?: number; // Highest MIDI note to show (default 84 C6)
 }
@@ -13,13 +19,28 @@ interface PianoRollProps {
 export const PianoRoll: React.FC<PianoRollProps> = ({
   currentStep,
   steps,
+  length,
+  groups,
+  gates,
   onChange,
+  onGateChange,
   minNote = 36,
   maxNote = 84
 }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
   const [isDrawing, setIsDrawing] = useState(false);
   const [drawMode, setDrawMode] = useState<boolean>(true); // true = adding, false = removing
+  // Step whose note length is being dragged from its handle
+  const [resizeStep, setResizeStep] = useState<number | null>(null);
+
+  // Cells covered by a note's gate after its first step, keyed "step:note"
+  const tails = new Set<string>();
+  steps.forEach((stepNotes, stepIndex) => {
+    const span = Math.ceil(gates[stepIndex] ?? 1);
+    for (let i = 1; i < span && stepIndex + i < length; i++) {
+      stepNotes?.forEach(note => tails.add(`${stepIndex + i}:${note}`));
+    }
+  });
 
   // Generate note range (descending order for display)
   const notes = Array.from({ length: maxNote - minNote + 1 }, (_, i) => maxNote - i);
@@ -55,7 +76,42 @@ export const PianoRoll: React.FC<PianoRollProps> = ({
     toggleNote(stepIndex, note);
   };
 
+  const handleResizeStart = (e: React.MouseEvent, stepIndex: number) => {
+    e.stopPropagation();
+    setResizeStep(stepIndex);
+  };
+
+  // Alt+wheel on a note steps through the gate lengths, including fractions of a step
+  const handleGateWheel = (e: WheelEvent, stepIndex: number) => {
+    const current = GATE_OPTIONS.indexOf(gates[stepIndex]);
+    const index = current === -1 ? GATE_OPTIONS.indexOf(1) : current;
+    const next = GATE_OPTIONS[Math.max(0, Math.min(GATE_OPTIONS.length - 1, index + (e.deltaY > 0 ? 1 : -1)))];
+    if (next !== gates[stepIndex]) onGateChange(stepIndex, next);
+  };
+
+  // Non-passive listener so Alt+wheel can stop the grid from scrolling
+  const gateWheelRef = useRef(handleGateWheel);
+  gateWheelRef.current = handleGateWheel;
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.altKey) return;
+      const cell = (e.target as HTMLElement).closest<HTMLElement>('[data-gate-step]');
+      if (!cell) return;
+      e.preventDefault();
+      gateWheelRef.current(e, Number(cell.dataset.gateStep));
+    };
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, []);
+
   const handleMouseEnter = (stepIndex: number, note: number) => {
+    if (resizeStep !== null) {
+      // Dragging the handle: the note now ends at the end of the hovered step
+      if (stepIndex >= resizeStep) onGateChange(resizeStep, Math.min(MAX_GATE, stepIndex - resizeStep + 1));
+      return;
+    }
     if (!isDrawing) return;
     
     const currentNotes = steps[stepIndex] || [];
@@ -79,7 +135,10 @@ export const PianoRoll: React.FC<PianoRollProps> = ({
   };
 
   useEffect(() => {
-    const handleUp = () => setIsDrawing(false);
+    const handleUp = () => {
+      setIsDrawing(false);
+      setResizeStep(null);
+    };
     window.addEventListener('mouseup', handleUp);
     window.addEventListener('touchend', handleUp);
     return () => {
@@ -133,7 +192,8 @@ export const PianoRoll: React.FC<PianoRollProps> = ({
             display: 'flex', 
             flexDirection: 'column', 
             // Calculate total width explicitly to ensure scrolling matches structure
-            width: 4 * ( (4 * STEP_width) + (3 * STEP_GAP) + (2 * GROUP_PADDING_X) ) + (3 * GROUP_GAP)
+            width: groups.reduce((sum, group) => sum + (group.length * STEP_width) + ((group.length - 1) * STEP_GAP) + (2 * GROUP_PADDING_X), 0)
+              + ((groups.length - 1) * GROUP_GAP)
         }}>
             {notes.map(note => {
                 const isBlack = [1, 3, 6, 8, 10].includes(note % 12);
@@ -143,16 +203,17 @@ export const PianoRoll: React.FC<PianoRollProps> = ({
                         key={note} 
                         className={`piano-row ${isBlack ? 'black' : 'white'}`}
                     >
-                        {/* Render 4 Groups */}
-                        {[0, 1, 2, 3].map(groupIdx => (
+                        {/* Render beat groups */}
+                        {groups.map((group, groupIdx) => (
                             <div 
-                                key={groupIdx} 
+                                key={group[0]} 
                                 className={`piano-group ${groupIdx % 2 === 0 ? 'alternate' : ''}`}
                             >
-                                { [0, 1, 2, 3].map(stepInGroup => {
-                                    const stepIndex = (groupIdx * 4) + stepInGroup;
+                                { group.map(stepIndex => {
                                     const active = steps[stepIndex]?.includes(note);
                                     const current = currentStep === stepIndex;
+                                    const disabled = stepIndex >= length;
+                                    const tail = !active && tails.has(`${stepIndex}:${note}`);
                                     
                                     return (
                                         <div
@@ -160,8 +221,17 @@ export const PianoRoll: React.FC<PianoRollProps> = ({
                                             onMouseDown={() => handleMouseDown(stepIndex, note)}
                                             onMouseEnter={() => handleMouseEnter(stepIndex, note)}
                                             onTouchStart={(e) => handleTouchStart(e, stepIndex, note)}
-                                            className={`piano-cell ${active ? 'active' : ''} ${current ? 'current' : ''}`}
-                                        />
+                                            data-gate-step={active ? stepIndex : undefined}
+                                            className={`piano-cell ${active ? 'active' : ''} ${tail ? 'tail' : ''} ${current ? 'current' : ''} ${disabled ? 'disabled' : ''}`}
+                                            title={active ? `Gate ${formatGate(gates[stepIndex] ?? 1)}: drag the right edge or Alt+wheel to change` : undefined}
+                                        >
+                                            {active && (
+                                                <div
+                                                    className="piano-note-handle"
+                                                    onMouseDown={(e) => handleResizeStart(e, stepIndex)}
+                                                />
+                                            )}
+                                        </div>
                                     );
                                 })}
                             </div>
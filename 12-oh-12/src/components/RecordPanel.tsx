@@ -0,0 +1,133 @@
+import React from 'react';
+import type { Instrument, RecordMode } from '../types';
+import { ScrollableSelect } from './ScrollableSelect';
+import { midiToNoteName } from './NoteStepper';
+import { RECORD_PAD_KEYS, RECORD_NOTE_KEYS } from '../hooks/useRecordKeys';
+
+export type RecordKeysTarget = 'bass' | 'poly';
+
+interface RecordPanelProps {
+  armed: boolean;
+  mode: RecordMode;
+  quantize: number; // Percent: 100 snaps to the step, 0 keeps the played timing as a nudge
+  keysTarget: RecordKeysTarget;
+  baseNote: number; // MIDI note of the lowest key
+  onArmedChange: (armed: boolean) => void;
+  onModeChange: (mode: RecordMode) => void;
+  onQuantizeChange: (quantize: number) => void;
+  onKeysTargetChange: (target: RecordKeysTarget) => void;
+  onOctaveChange: (delta: number) => void;
+  onPad: (inst: Instrument, velocity: number) => void;
+  onNote: (semitone: number, velocity: number) => void;
+}
+
+const QUANTIZE_OPTIONS = [100, 75, 50, 25, 0];
+const BLACK_KEYS = [1, 3, 6, 8, 10];
+
+const keyLabel = (code: string) => code.replace('Key', '').replace('Digit', '');
+const PAD_KEYS = Object.entries(RECORD_PAD_KEYS).map(([code, inst]) => ({ inst, key: keyLabel(code) }));
+
+/**
+ * Velocity from where a pad was hit: louder towards the top
+ */
+const getHitVelocity = (e: React.MouseEvent<HTMLElement>): number => {
+  const rect = e.currentTarget.getBoundingClientRect();
+  const height = rect.height || 1;
+  return Math.max(20, Math.min(127, Math.round(127 * (1 - (e.clientY - rect.top) / height))));
+};
+
+/**
+ * Record arm and live input: drum pads, a one-octave keyboard for bass or poly, and the record options
+ */
+export const RecordPanel: React.FC<RecordPanelProps> = ({
+  armed,
+  mode,
+  quantize,
+  keysTarget,
+  baseNote,
+  onArmedChange,
+  onModeChange,
+  onQuantizeChange,
+  onKeysTargetChange,
+  onOctaveChange,
+  onPad,
+  onNote,
+}) => {
+  return (
+    <div className={`record-panel ${armed ? 'armed' : ''}`}>
+      <div className="scene-selector-top">
+        <div className="scene-label">REC</div>
+        <div className="scene-global-actions">
+          <button
+            className={`scene-action-btn record-arm-btn ${armed ? 'active' : ''}`}
+            onClick={() => onArmedChange(!armed)}
+            title="Record arm: hits played while the transport runs are written into the scene"
+          >
+            ● Arm
+          </button>
+          <div className="scene-divider" />
+          <ScrollableSelect
+            className="song-select"
+            value={mode}
+            onChange={e => onModeChange(e.target.value as RecordMode)}
+            title="Overdub keeps existing steps; replace clears steps on tracks you play as the playhead passes"
+          >
+            <option value="overdub">Overdub</option>
+            <option value="replace">Replace</option>
+          </ScrollableSelect>
+          <ScrollableSelect
+            className="song-select"
+            value={quantize}
+            onChange={e => onQuantizeChange(Number(e.target.value))}
+            title="Quantize strength: the rest of the played timing is kept as a nudge"
+          >
+            {QUANTIZE_OPTIONS.map(q => <option key={q} value={q}>Q {q}%</option>)}
+          </ScrollableSelect>
+        </div>
+      </div>
+
+      <div className="record-inputs">
+        <div className="record-pads">
+          {PAD_KEYS.map(({ inst, key }) => (
+            <button
+              key={inst}
+              className="record-pad"
+              onMouseDown={e => onPad(inst, getHitVelocity(e))}
+              title={`${inst} (key ${key}, Shift for accent)`}
+            >
+              <span className="record-pad-name">{inst}</span>
+              <span className="record-pad-key">{key}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="record-keys">
+          <ScrollableSelect
+            className="song-select"
+            value={keysTarget}
+            onChange={e => onKeysTargetChange(e.target.value as RecordKeysTarget)}
+            title="Track the keyboard records into"
+          >
+            <option value="bass">303</option>
+            <option value="poly">Poly</option>
+          </ScrollableSelect>
+          <button className="scene-action-btn" onClick={() => onOctaveChange(-1)} title="Octave down (Z)">‹</button>
+          <span className="record-octave">{midiToNoteName(baseNote)}</span>
+          <button className="scene-action-btn" onClick={() => onOctaveChange(1)} title="Octave up (X)">›</button>
+          <div className="record-keyboard">
+            {RECORD_NOTE_KEYS.map((code, semitone) => (
+              <button
+                key={code}
+                className={`record-key ${BLACK_KEYS.includes(semitone % 12) ? 'black' : ''}`}
+                onMouseDown={e => onNote(semitone, getHitVelocity(e))}
+                title={`${midiToNoteName(baseNote + semitone)} (key ${keyLabel(code)})`}
+              >
+                {keyLabel(code)}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
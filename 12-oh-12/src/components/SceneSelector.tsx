@@ -1,9 +1,13 @@
 import React from 'react';
-import type { Scene } from '../types';
+import type { Scene, LaunchQuantize } from '../types';
+import { ScrollableSelect } from './ScrollableSelect';
 
 interface SceneSelectorProps {
   scenes: Scene[];
   activeIndex: number;
+  queuedIndex: number | null;
+  launchQuantize: LaunchQuantize;
+  onLaunchQuantizeChange: (quantize: LaunchQuantize) => void;
   onSceneSelect: (index: number) => void;
   onSceneCopy: (index: number) => void;
   onScenePaste: (index: number) => void;
@@ -17,6 +21,9 @@ interface SceneSelectorProps {
 export const SceneSelector: React.FC<SceneSelectorProps> = ({
   scenes,
   activeIndex,
+  queuedIndex,
+  launchQuantize,
+  onLaunchQuantizeChange,
   onSceneSelect,
   onSceneCopy,
   onScenePaste,
@@ -27,6 +34,12 @@ export const SceneSelector: React.FC<SceneSelectorProps> = ({
   onExportAll,
 }) => {
   const sceneLabels = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'];
+  const quantizeLabels: Record<LaunchQuantize, string> = {
+    immediate: 'Now',
+    beat: 'Beat',
+    bar: 'Bar',
+    pattern: 'Pattern',
+  };
 
   const hasData = (scene: Scene): boolean => {
     // Check if scene has any active steps
@@ -51,6 +64,17 @@ export const SceneSelector: React.FC<SceneSelectorProps> = ({
             Random
           </button>
           <div className="scene-divider" />
+          <ScrollableSelect
+            className="pattern-select"
+            value={launchQuantize}
+            onChange={e => onLaunchQuantizeChange(e.target.value as LaunchQuantize)}
+            title="Launch quantize: when a scene picked during playback takes over"
+          >
+            {(Object.keys(quantizeLabels) as LaunchQuantize[]).map(q => (
+              <option key={q} value={q}>{quantizeLabels[q]}</option>
+            ))}
+          </ScrollableSelect>
+          <div className="scene-divider" />
           <button className="scene-action-btn" onClick={onImport} title="Import Scene (.json)">
             Import
           </button>
@@ -66,9 +90,9 @@ export const SceneSelector: React.FC<SceneSelectorProps> = ({
         {sceneLabels.map((label, index) => (
           <button
             key={label}
-            className={`scene-btn ${activeIndex === index ? 'active' : ''} ${hasData(scenes[index]) ? 'has-data' : ''}`}
+            className={`scene-btn ${activeIndex === index ? 'active' : ''} ${queuedIndex === index ? 'queued' : ''} ${hasData(scenes[index]) ? 'has-data' : ''}`}
             onClick={() => onSceneSelect(index)}
-            title={`Scene ${label}${hasData(scenes[index]) ? ' (has data)' : ''}`}
+            title={`Scene ${label}${hasData(scenes[index]) ? ' (has data)' : ''}${queuedIndex === index ? ' (queued)' : ''}`}
           >
             <span className="scene-btn-label">{label}</span>
             {hasData(scenes[index]) && <span className="scene-indicator">•</span>}
@@ -19,12 +19,19 @@ export const ShortcutHelp: React.FC<ShortcutHelpProps> = ({ isOpen, onClose }) =
 
   const shortcuts = [
     { key: 'Space', desc: 'Play / Stop' },
-    { key: '[ / ]', desc: 'Decrease / Increase BPM' },
+    { key: '[ / ]', desc: 'Decrease / Increase BPM by 1' },
+    { key: 'Shift + [ / ]', desc: 'Decrease / Increase BPM by 0.1' },
+    { key: 'T', desc: 'Tap Tempo' },
     { key: 'A - H', desc: 'Switch to Scene' },
     { key: '1 - 7', desc: 'Solo Track (Kick, Snare, HiHat, Clap, Bass, Pad, Poly)' },
     { key: 'Shift + 1-7', desc: 'Mute Track' },
     { key: 'Cmd/Ctrl + S', desc: 'Save Pattern' },
     { key: 'Cmd/Ctrl + E', desc: 'Export Pattern' },
+    { key: 'Cmd/Ctrl + Z', desc: 'Undo' },
+    { key: 'Shift + Cmd/Ctrl + Z', desc: 'Redo' },
+    { key: '1 - 4 (Rec)', desc: 'Record Pads (Kick, Snare, HiHat, Clap); Shift for accent' },
+    { key: 'A - K (Rec)', desc: 'Record Notes into 303 / Poly' },
+    { key: 'Z / X (Rec)', desc: 'Record Octave Down / Up' },
     { key: '?', desc: 'Show This Help' },
     { key: 'Esc', desc: 'Close Help' },
   ];
@@ -0,0 +1,77 @@
+import { useEffect, useRef } from 'react';
+
+interface SliceWaveformProps {
+  peaks: number[] | null; // Peak level per column, null while there is no decoded sample
+  points: number[]; // Slice starts, 0-1 of the sample
+  activeSlice: number | null; // Slice playing now, highlighted
+}
+
+const HEIGHT = 48;
+
+/**
+ * The slicer's sample with a marker and number at the start of each slice
+ */
+export function SliceWaveform({ peaks, points, activeSlice }: SliceWaveformProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const width = canvas.clientWidth;
+    canvas.width = width;
+    canvas.height = HEIGHT;
+
+    const style = getComputedStyle(document.documentElement);
+    const background = style.getPropertyValue('--bg-tertiary').trim() || '#1e1e1e';
+    const accent = style.getPropertyValue('--accent-primary').trim() || '#ff5722';
+    const muted = style.getPropertyValue('--text-secondary').trim() || '#888';
+
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, width, HEIGHT);
+
+    if (!peaks) {
+      ctx.fillStyle = muted;
+      ctx.font = '10px monospace';
+      ctx.textAlign = 'center';
+      ctx.fillText('Drop a break here', width / 2, HEIGHT / 2 + 3);
+      return;
+    }
+
+    if (activeSlice !== null && points[activeSlice] !== undefined) {
+      const x = points[activeSlice] * width;
+      const end = (points[activeSlice + 1] ?? 1) * width;
+      ctx.globalAlpha = 0.2;
+      ctx.fillStyle = accent;
+      ctx.fillRect(x, 0, end - x, HEIGHT);
+      ctx.globalAlpha = 1;
+    }
+
+    // One vertical line per peak, mirrored around the middle
+    ctx.strokeStyle = muted;
+    ctx.beginPath();
+    peaks.forEach((peak, i) => {
+      const x = ((i + 0.5) / peaks.length) * width;
+      const h = Math.max(1, peak * (HEIGHT - 4));
+      ctx.moveTo(x, (HEIGHT - h) / 2);
+      ctx.lineTo(x, (HEIGHT + h) / 2);
+    });
+    ctx.stroke();
+
+    ctx.strokeStyle = accent;
+    ctx.fillStyle = accent;
+    ctx.font = '9px monospace';
+    ctx.textAlign = 'left';
+    points.forEach((point, i) => {
+      const x = Math.round(point * width) + 0.5;
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, HEIGHT);
+      ctx.stroke();
+      ctx.fillText(String(i + 1), x + 2, 9);
+    });
+  }, [peaks, points, activeSlice]);
+
+  return <canvas ref={canvasRef} className="slice-waveform" />;
+}
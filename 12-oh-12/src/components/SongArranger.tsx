@@ -0,0 +1,161 @@
+import React from 'react';
+import type { Song, SongEntry } from '../types';
+import { ScrollableSelect } from './ScrollableSelect';
+import { MAX_SONG_REPEATS } from '../utils/storage';
+
+interface SongArrangerProps {
+  song: Song;
+  songMode: boolean;
+  activeSceneIndex: number;
+  position: { entryIndex: number; repeat: number } | null;
+  onSongChange: (song: Song) => void;
+  onSongModeChange: (enabled: boolean) => void;
+}
+
+const SCENE_LABELS = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'];
+
+/**
+ * Song arranger: an ordered list of (scene, repeats) entries with optional loop points.
+ */
+export const SongArranger: React.FC<SongArrangerProps> = ({
+  song,
+  songMode,
+  activeSceneIndex,
+  position,
+  onSongChange,
+  onSongModeChange,
+}) => {
+  const { entries } = song;
+
+  // Keep loop points inside the list whenever entries change
+  const withEntries = (newEntries: SongEntry[]): Song => {
+    const last = Math.max(0, newEntries.length - 1);
+    const loopStart = Math.min(song.loopStart, last);
+    return {
+      ...song,
+      entries: newEntries,
+      loopStart,
+      loopEnd: Math.max(loopStart, Math.min(song.loopEnd, last)),
+    };
+  };
+
+  const updateEntry = (index: number, changes: Partial<SongEntry>) => {
+    const newEntries = entries.map((e, i) => (i === index ? { ...e, ...changes } : e));
+    onSongChange(withEntries(newEntries));
+  };
+
+  const addEntry = () => {
+    onSongChange(withEntries([...entries, { sceneIndex: activeSceneIndex, repeats: 1 }]));
+  };
+
+  const removeEntry = (index: number) => {
+    if (entries.length <= 1) return;
+    onSongChange(withEntries(entries.filter((_, i) => i !== index)));
+  };
+
+  const moveEntry = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= entries.length) return;
+    const newEntries = [...entries];
+    [newEntries[index], newEntries[target]] = [newEntries[target], newEntries[index]];
+    onSongChange(withEntries(newEntries));
+  };
+
+  const setLoop = (start: number, end: number) => {
+    onSongChange({ ...song, loopStart: start, loopEnd: Math.max(start, end) });
+  };
+
+  const current = position ? entries[position.entryIndex] : null;
+
+  return (
+    <div className="song-arranger">
+      <div className="scene-selector-top">
+        <div className="scene-label">SONG</div>
+        <div className="song-readout">
+          {songMode && position && current
+            ? `Entry ${position.entryIndex + 1}/${entries.length} · Scene ${SCENE_LABELS[current.sceneIndex]} · Rep ${position.repeat + 1}/${current.repeats}`
+            : songMode ? 'Ready' : 'Off'}
+        </div>
+        <div className="scene-global-actions">
+          <button
+            className={`scene-action-btn ${songMode ? 'active' : ''}`}
+            onClick={() => onSongModeChange(!songMode)}
+            title="Play the arrangement instead of a single scene"
+          >
+            Song Mode
+          </button>
+          <div className="scene-divider" />
+          <button
+            className={`scene-action-btn ${song.loopEnabled ? 'active' : ''}`}
+            onClick={() => onSongChange({ ...song, loopEnabled: !song.loopEnabled })}
+            title="Loop between the loop points"
+          >
+            Loop
+          </button>
+          <ScrollableSelect
+            className="song-select"
+            value={song.loopStart}
+            onChange={e => setLoop(Number(e.target.value), song.loopEnd)}
+            title="Loop start"
+          >
+            {entries.map((_, i) => <option key={i} value={i}>{i + 1}</option>)}
+          </ScrollableSelect>
+          <span className="song-loop-sep">→</span>
+          <ScrollableSelect
+            className="song-select"
+            value={song.loopEnd}
+            onChange={e => setLoop(song.loopStart, Number(e.target.value))}
+            title="Loop end"
+          >
+            {entries.map((_, i) => <option key={i} value={i} disabled={i < song.loopStart}>{i + 1}</option>)}
+          </ScrollableSelect>
+        </div>
+      </div>
+
+      <div className="song-entries">
+        {entries.map((entry, index) => {
+          const isPlayingEntry = songMode && position?.entryIndex === index;
+          const inLoop = song.loopEnabled && index >= song.loopStart && index <= song.loopEnd;
+          return (
+            <div
+              key={index}
+              className={`song-entry ${isPlayingEntry ? 'playing' : ''} ${inLoop ? 'in-loop' : ''}`}
+            >
+              <span className="song-entry-index">{index + 1}</span>
+              <ScrollableSelect
+                className="song-select"
+                value={entry.sceneIndex}
+                onChange={e => updateEntry(index, { sceneIndex: Number(e.target.value) })}
+                title="Scene"
+              >
+                {SCENE_LABELS.map((label, i) => <option key={label} value={i}>{label}</option>)}
+              </ScrollableSelect>
+              <ScrollableSelect
+                className="song-select"
+                value={entry.repeats}
+                onChange={e => updateEntry(index, { repeats: Number(e.target.value) })}
+                onWheel={e => {
+                  const next = entry.repeats + (e.deltaY > 0 ? 1 : -1);
+                  if (next >= 1 && next <= MAX_SONG_REPEATS) updateEntry(index, { repeats: next });
+                }}
+                title="Repeats"
+              >
+                {Array.from({ length: MAX_SONG_REPEATS }, (_, i) => (
+                  <option key={i + 1} value={i + 1}>×{i + 1}</option>
+                ))}
+              </ScrollableSelect>
+              <div className="song-entry-actions">
+                <button onClick={() => moveEntry(index, -1)} disabled={index === 0} title="Move earlier">‹</button>
+                <button onClick={() => moveEntry(index, 1)} disabled={index === entries.length - 1} title="Move later">›</button>
+                <button onClick={() => removeEntry(index)} disabled={entries.length <= 1} title="Remove">×</button>
+              </div>
+            </div>
+          );
+        })}
+        <button className="scene-action-btn song-add-btn" onClick={addEntry} title="Append the active scene">
+          + Add
+        </button>
+      </div>
+    </div>
+  );
+};
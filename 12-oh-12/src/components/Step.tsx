@@ -1,10 +1,31 @@
 import React, { useRef, useEffect, useCallback, useState } from 'react';
+import type { TrigCondition, RatchetRamp } from '../types';
+
+// Pixels of Alt-drag per probability/condition increment
+const DRAG_STEP_PX = 4;
 
 interface StepProps {
   isActive: boolean;
   isCurrent: boolean;
+  /** Step lies beyond the track's length and will not play */
+  isDisabled?: boolean;
   velocity: number;
+  /** Trig chance 0-100 */
+  probability?: number;
+  condition?: TrigCondition;
+  /** Micro-timing, percent of a 16th (negative = early) */
+  nudge?: number;
+  ratchets?: number;
+  ratchetRamp?: RatchetRamp;
+  /** Step carries parameter locks */
+  isLocked?: boolean;
+  /** Step is held for parameter locking */
+  isHeld?: boolean;
   onMouseDown: () => void;
+  /** Shift+click on an active step: hold it for parameter locking */
+  onHold?: () => void;
+  /** Right-click: cycle ratchets (Shift cycles the ramp) */
+  onContextMenu?: (e: MouseEvent) => void;
   onMouseEnter: () => void;
   onWheel: (e: WheelEvent) => void;
 }
@@ -12,12 +33,25 @@ interface StepProps {
 /**
  * A step button in the sequencer that properly prevents page scrolling when
  * scrolling to adjust velocity.
+ * Alt+wheel or Alt+drag up/down adjusts probability; Alt+horizontal wheel or
+ * Alt+drag left/right nudges timing; Ctrl+wheel cycles the trig condition.
+ * Right-click cycles ratchets; Shift+click holds the step for parameter locks.
  */
 export const Step: React.FC<StepProps> = ({
   isActive,
   isCurrent,
+  isDisabled = false,
   velocity,
+  probability = 100,
+  condition = 'always',
+  nudge = 0,
+  ratchets = 1,
+  ratchetRamp = 'flat',
+  isLocked = false,
+  isHeld = false,
   onMouseDown,
+  onContextMenu,
+  onHold,
   onMouseEnter,
   onWheel,
 }) => {
@@ -32,6 +66,49 @@ export const Step: React.FC<StepProps> = ({
     onWheel(e);
   }, [onWheel]);
 
+  // Alt+drag: turn mouse movement into synthetic modifier-wheel events
+  const handleMouseDown = useCallback((e: React.MouseEvent) => {
+    if (e.shiftKey && isActive && onHold) {
+      onHold();
+      return;
+    }
+    if (!e.altKey || !isActive) {
+      onMouseDown();
+      return;
+    }
+    e.preventDefault();
+    let lastX = e.clientX;
+    let lastY = e.clientY;
+
+    const handleMove = (moveEvent: MouseEvent) => {
+      const dx = moveEvent.clientX - lastX;
+      const dy = moveEvent.clientY - lastY;
+      if (Math.abs(dy) >= DRAG_STEP_PX && Math.abs(dy) >= Math.abs(dx)) {
+        // Same direction as touch: drag down increases
+        onWheel(new WheelEvent('wheel', { deltaY: dy, altKey: true }));
+        lastX = moveEvent.clientX;
+        lastY = moveEvent.clientY;
+      } else if (Math.abs(dx) >= DRAG_STEP_PX) {
+        // Drag right = later
+        onWheel(new WheelEvent('wheel', { deltaX: dx, altKey: true }));
+        lastX = moveEvent.clientX;
+        lastY = moveEvent.clientY;
+      }
+    };
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  }, [isActive, onMouseDown, onWheel, onHold]);
+
+  const handleContextMenu = useCallback((e: React.MouseEvent) => {
+    if (!onContextMenu) return;
+    e.preventDefault();
+    onContextMenu(e.nativeEvent);
+  }, [onContextMenu]);
+
   const handleTouchStart = useCallback((e: React.TouchEvent) => {
     if (!isActive) return;
     
@@ -93,13 +170,22 @@ export const Step: React.FC<StepProps> = ({
   return (
     <div
       ref={stepRef}
-      className={`step ${isActive ? 'active' : ''} ${isCurrent ? 'current' : ''} ${isTouchAdjusting ? 'adjusting' : ''}`}
-      onMouseDown={onMouseDown}
+      className={`step ${isActive ? 'active' : ''} ${isCurrent ? 'current' : ''} ${isTouchAdjusting ? 'adjusting' : ''} ${isDisabled ? 'disabled' : ''} ${isActive && (probability < 100 || condition !== 'always') ? 'conditional' : ''} ${isLocked ? 'locked' : ''} ${isHeld ? 'held' : ''}`}
+      onMouseDown={handleMouseDown}
+      onContextMenu={handleContextMenu}
       onMouseEnter={onMouseEnter}
       onTouchStart={handleTouchStart}
       onTouchMove={handleTouchMove}
       onTouchEnd={handleTouchEnd}
     >
+      {isActive && nudge !== 0 && <div className="step-nudge" style={{ left: `${50 + nudge}%` }} />}
+      {isActive && probability < 100 && <div className="step-probability">{probability}%</div>}
+      {isActive && condition !== 'always' && <div className="step-condition">{condition.toUpperCase()}</div>}
+      {isActive && ratchets > 1 && (
+        <div className="step-ratchet">
+          {ratchetRamp === 'up' ? '↗' : ratchetRamp === 'down' ? '↘' : '×'}{ratchets}
+        </div>
+      )}
       {isActive && <div className="step-velocity">{velocity}</div>}
     </div>
   );
@@ -1,8 +1,15 @@
 
-import React from 'react';
-import type { Instrument } from '../types';
+import React, { useState } from 'react';
+import type { Instrument, GrooveTemplate, StepResolution } from '../types';
 import { Knob } from './Knob';
 import { ScrollableSlider } from './ScrollableSlider';
+import { ScrollableSelect } from './ScrollableSelect';
+import { MAX_STEPS, STEP_RESOLUTIONS, MAX_CHOKE_GROUPS } from '../types';
+import { RESOLUTION_LABELS } from '../utils/steps';
+
+// Per-track swing choices, matching the global swing slider (0-50% in 2% steps)
+const SWING_OPTIONS = Array.from({ length: 26 }, (_, i) => (i * 2) / 100);
+const CHOKE_OPTIONS = Array.from({ length: MAX_CHOKE_GROUPS }, (_, i) => i + 1);
 
 interface TrackRowProps {
   label: string;
@@ -13,6 +20,12 @@ interface TrackRowProps {
   reverbSend: number;
   delaySend: number;
   eq: { low: number; mid: number; high: number };
+  length: number;
+  resolution: StepResolution;
+  groove: string | null; // null follows the global groove
+  swing: number | null; // null follows the global swing
+  chokeGroup: number | null;
+  grooves: GrooveTemplate[];
   
   onMute: (inst: Instrument) => void;
   onSolo: (inst: Instrument) => void;
@@ -20,8 +33,14 @@ interface TrackRowProps {
   onReverbSendChange: (inst: Instrument, val: number) => void;
   onDelaySendChange: (inst: Instrument, val: number) => void;
   onEQChange: (inst: Instrument, band: 'low' | 'mid' | 'high', val: number) => void;
+  onLengthChange: (inst: Instrument, length: number) => void;
+  onResolutionChange: (inst: Instrument, resolution: StepResolution) => void;
+  onGrooveChange: (inst: Instrument, groove: string | null) => void;
+  onSwingChange: (inst: Instrument, swing: number | null) => void;
+  onChokeGroupChange: (inst: Instrument, group: number | null) => void;
   
   extraControls?: React.ReactNode;
+  onFileDrop?: (file: File) => void; // Makes the row a drop target for files (the sampler and slicer audio)
   children: React.ReactNode; // For the steps grid
   
   // Optional styling classes
@@ -37,18 +56,49 @@ export const TrackRow = React.memo<TrackRowProps>(({
   reverbSend,
   delaySend,
   eq,
+  length,
+  resolution,
+  groove,
+  swing,
+  chokeGroup,
+  grooves,
   onMute,
   onSolo,
   onVolumeChange,
   onReverbSendChange,
   onDelaySendChange,
   onEQChange,
+  onLengthChange,
+  onResolutionChange,
+  onGrooveChange,
+  onSwingChange,
+  onChokeGroupChange,
   extraControls,
+  onFileDrop,
   children,
   className = ''
 }) => {
+  const [isDropTarget, setIsDropTarget] = useState(false);
+
+  const dropHandlers = onFileDrop ? {
+    onDragOver: (e: React.DragEvent<HTMLDivElement>) => {
+      e.preventDefault();
+      setIsDropTarget(true);
+    },
+    onDragLeave: (e: React.DragEvent<HTMLDivElement>) => {
+      // Moving onto a child element also fires dragleave
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDropTarget(false);
+    },
+    onDrop: (e: React.DragEvent<HTMLDivElement>) => {
+      e.preventDefault();
+      setIsDropTarget(false);
+      const file = e.dataTransfer.files[0];
+      if (file) onFileDrop(file);
+    },
+  } : {};
+
   return (
-    <div className={`track-container ${className}`}>
+    <div className={`track-container ${className} ${isDropTarget ? 'drop-target' : ''}`} {...dropHandlers}>
       {/* Left Section: Header + Steps (stacked vertically) */}
       <div className="track-left-section">
         {/* Header Row: Label, M/S, Params */}
@@ -59,6 +109,60 @@ export const TrackRow = React.memo<TrackRowProps>(({
               <button className={`ms-btn ${mute ? 'active' : ''}`} onClick={() => onMute(instrument)}>M</button>
               <button className={`ms-btn ${solo ? 'active' : ''}`} onClick={() => onSolo(instrument)}>S</button>
             </div>
+            <ScrollableSelect
+              className="length-select"
+              value={length}
+              title="Track length (steps)"
+              onChange={e => onLengthChange(instrument, Number(e.target.value))}
+              onWheel={e => onLengthChange(instrument, length + (e.deltaY > 0 ? 1 : -1))}
+            >
+              {Array.from({ length: MAX_STEPS }, (_, i) => (
+                <option key={i + 1} value={i + 1}>{i + 1}</option>
+              ))}
+            </ScrollableSelect>
+            <ScrollableSelect
+              className="length-select resolution-select"
+              value={resolution}
+              title="Step resolution"
+              onChange={e => onResolutionChange(instrument, e.target.value as StepResolution)}
+            >
+              {STEP_RESOLUTIONS.map(r => (
+                <option key={r} value={r}>{RESOLUTION_LABELS[r]}</option>
+              ))}
+            </ScrollableSelect>
+            <ScrollableSelect
+              className="groove-select"
+              value={groove ?? ''}
+              title="Track groove"
+              onChange={e => onGrooveChange(instrument, e.target.value || null)}
+            >
+              <option value="">Groove: Global</option>
+              {grooves.map(g => (
+                <option key={g.id} value={g.id}>{g.name}</option>
+              ))}
+            </ScrollableSelect>
+            <ScrollableSelect
+              className="groove-select"
+              value={swing === null ? '' : String(swing)}
+              title="Track swing"
+              onChange={e => onSwingChange(instrument, e.target.value === '' ? null : Number(e.target.value))}
+            >
+              <option value="">Swing: Global</option>
+              {SWING_OPTIONS.map(s => (
+                <option key={s} value={String(s)}>Swing {Math.round(s * 100)}%</option>
+              ))}
+            </ScrollableSelect>
+            <ScrollableSelect
+              className="length-select choke-select"
+              value={chokeGroup === null ? '' : String(chokeGroup)}
+              title="Choke group: a trig cuts the other tracks in the same group"
+              onChange={e => onChokeGroupChange(instrument, e.target.value === '' ? null : Number(e.target.value))}
+            >
+              <option value="">Ch -</option>
+              {CHOKE_OPTIONS.map(g => (
+                <option key={g} value={String(g)}>Ch {g}</option>
+              ))}
+            </ScrollableSelect>
           </div>
           <div className="track-params">
             {extraControls}
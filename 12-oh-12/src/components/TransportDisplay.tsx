@@ -0,0 +1,34 @@
+import React from 'react';
+import type { TransportPosition } from '../types';
+
+interface TransportDisplayProps {
+  position: TransportPosition | null; // null while stopped
+}
+
+const formatElapsed = (seconds: number): string => {
+  // Round first so 59.95 s reads 01:00.0, not 00:60.0
+  const tenths = Math.round(seconds * 10);
+  const minutes = Math.floor(tenths / 600);
+  const rest = (tenths % 600) / 10;
+  return `${String(minutes).padStart(2, '0')}:${rest.toFixed(1).padStart(4, '0')}`;
+};
+
+/**
+ * Bar:beat:16th, pattern loop count and elapsed time of the running transport
+ */
+export const TransportDisplay: React.FC<TransportDisplayProps> = ({ position }) => {
+  const { bar, beat, sixteenth, loop, elapsed } = position ?? { bar: 1, beat: 1, sixteenth: 1, loop: 1, elapsed: 0 };
+  return (
+    <div className={`transport-display ${position ? 'running' : ''}`}>
+      <span className="transport-field" title="Bar : beat : 16th">
+        {bar}:{beat}:{sixteenth}
+      </span>
+      <span className="transport-field" title="Pattern loop">
+        LOOP {loop}
+      </span>
+      <span className="transport-field" title="Elapsed time">
+        {formatElapsed(elapsed)}
+      </span>
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { Scene, ProModeParams } from '../types';
+
+export interface HistorySnapshot {
+  scenes: Scene[];
+  proModeParams: ProModeParams;
+}
+
+export interface HistoryEntry extends HistorySnapshot {
+  label: string;
+}
+
+interface HistoryState {
+  entries: HistoryEntry[];
+  index: number;
+}
+
+const HISTORY_LIMIT = 100;
+// Edits closer together than this become one undo step (knob drags, wheel turns, drag-painting steps)
+const SETTLE_MS = 400;
+
+const SCENE_LABELS = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'];
+
+const FIELD_LABELS: Partial<Record<keyof Scene, string>> = {
+  name: 'Name',
+  grid: 'Steps',
+  bassPitches: '303 Notes',
+  bassAccents: 'Accents',
+  bassSlides: 'Slides',
+  padPitches: 'Pad Notes',
+  padVoicings: 'Voicings',
+  padInversions: 'Inversions',
+  padSpread: 'Spread',
+  padVoiceLeading: 'Voice Leading',
+  arps: 'Arp',
+  polyNotes: 'Poly Notes',
+  fmNotes: 'FM Notes',
+  gates: 'Gates',
+  trackLengths: 'Track Length',
+  trackResolutions: 'Resolution',
+  patternLength: 'Pattern Length',
+  stepGrouping: 'Meter',
+  volumes: 'Volume',
+  reverbSends: 'Reverb',
+  delaySends: 'Delay',
+  eqGains: 'EQ',
+  velocities: 'Velocity',
+  probabilities: 'Probability',
+  conditions: 'Conditions',
+  nudges: 'Nudge',
+  ratchets: 'Ratchets',
+  ratchetRamps: 'Ratchets',
+  paramLocks: 'P-Locks',
+  params: 'Sound',
+  mutes: 'Mute',
+  solos: 'Solo',
+  bpm: 'Tempo',
+  swing: 'Swing',
+  groove: 'Groove',
+  trackGrooves: 'Groove',
+  trackSwing: 'Swing',
+  chokeGroups: 'Choke',
+  sample: 'Sample',
+  samplerPitches: 'Sample Pitch',
+  slicerSample: 'Sample',
+  slicerMode: 'Slicing',
+  slicerCount: 'Slicing',
+  slicerSlices: 'Slices',
+};
+
+const isSame = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Name what changed between two snapshots, or return null when they hold the same data
+ * (e.g. the app re-saving a scene it just restored).
+ */
+const describeChange = (prev: HistorySnapshot, next: HistorySnapshot): string | null => {
+  const changes: string[] = [];
+  next.scenes.forEach((scene, i) => {
+    const before = prev.scenes[i];
+    if (scene === before) return;
+    const fields = (Object.keys(scene) as (keyof Scene)[]).filter(key => !before || !isSame(scene[key], before[key]));
+    if (fields.length === 0) return;
+    const labels = [...new Set(fields.map(f => FIELD_LABELS[f] ?? f))];
+    changes.push(`${SCENE_LABELS[i] ?? i + 1}: ${labels.length > 2 ? `${labels.slice(0, 2).join(', ')}…` : labels.join(', ')}`);
+  });
+  if (!isSame(prev.proModeParams, next.proModeParams)) changes.push('Pro Mode');
+
+  if (changes.length === 0) return null;
+  return changes.length > 2 ? `${changes.slice(0, 2).join('; ')}…` : changes.join('; ');
+};
+
+/**
+ * Undo/redo over the scene bank and Pro Mode params.
+ * Snapshots are taken once edits settle, and never while a pointer is held, so a whole drag is one step.
+ * `onRestore` must put a snapshot back into the app state.
+ */
+export const useHistory = (snapshot: HistorySnapshot, onRestore: (snapshot: HistorySnapshot) => void) => {
+  const [history, setHistory] = useState<HistoryState>({ entries: [], index: -1 });
+  const historyRef = useRef(history);
+  const pending = useRef<HistorySnapshot | null>(null);
+  const timer = useRef<number | undefined>(undefined);
+  const pointerDown = useRef(false);
+
+  const update = useCallback((next: HistoryState) => {
+    historyRef.current = next;
+    setHistory(next);
+  }, []);
+
+  const commit = useCallback(() => {
+    window.clearTimeout(timer.current);
+    const next = pending.current;
+    if (!next) return;
+    pending.current = null;
+
+    const { entries, index } = historyRef.current;
+    const current = entries[index];
+    if (!current) {
+      update({ entries: [{ ...next, label: 'Open' }], index: 0 });
+      return;
+    }
+    const label = describeChange(current, next);
+    if (!label) return;
+    // A new edit drops anything that was undone
+    const kept = [...entries.slice(0, index + 1), { ...next, label }].slice(-HISTORY_LIMIT);
+    update({ entries: kept, index: kept.length - 1 });
+  }, [update]);
+
+  const schedule = useCallback(() => {
+    window.clearTimeout(timer.current);
+    timer.current = window.setTimeout(() => {
+      if (!pointerDown.current) commit();
+    }, SETTLE_MS);
+  }, [commit]);
+
+  const { scenes, proModeParams } = snapshot;
+  useEffect(() => {
+    pending.current = { scenes, proModeParams };
+    schedule();
+  }, [scenes, proModeParams, schedule]);
+
+  useEffect(() => {
+    const handleDown = () => { pointerDown.current = true; };
+    const handleUp = () => {
+      pointerDown.current = false;
+      if (pending.current) schedule();
+    };
+    window.addEventListener('pointerdown', handleDown);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointerdown', handleDown);
+      window.removeEventListener('pointerup', handleUp);
+      window.clearTimeout(timer.current);
+    };
+  }, [schedule]);
+
+  const jumpTo = useCallback((target: number) => {
+    // Settle any edit still in flight first, so it can be redone
+    commit();
+    const { entries, index } = historyRef.current;
+    const entry = entries[target];
+    if (!entry || target === index) return;
+    update({ entries, index: target });
+    onRestore(entry);
+  }, [commit, update, onRestore]);
+
+  const undo = useCallback(() => {
+    commit();
+    jumpTo(historyRef.current.index - 1);
+  }, [commit, jumpTo]);
+
+  const redo = useCallback(() => {
+    commit();
+    jumpTo(historyRef.current.index + 1);
+  }, [commit, jumpTo]);
+
+  return {
+    entries: history.entries,
+    index: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    undo,
+    redo,
+    jumpTo,
+  };
+};
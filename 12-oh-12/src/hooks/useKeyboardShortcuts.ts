@@ -2,13 +2,16 @@ import { useEffect } from 'react';
 
 export interface ShortcutHandlers {
   onPlayPause: () => void;
-  onBpmIncrease: () => void;
-  onBpmDecrease: () => void;
+  onBpmIncrease: (fine: boolean) => void;
+  onBpmDecrease: (fine: boolean) => void;
+  onTapTempo: () => void;
   onSceneSelect: (index: number) => void;
   onSolo: (index: number) => void;
   onMute: (index: number) => void;
   onSave: () => void;
   onExport: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
   onRandomize?: () => void;
   onClear?: () => void;
   onHelp: () => void;
@@ -32,15 +35,22 @@ export const useKeyboardShortcuts = (handlers: ShortcutHandlers, enabled: boolea
         return;
       }
 
-      // [ and ]: BPM adjustment
+      // [ and ]: BPM adjustment (Shift for fine steps)
       if (e.code === 'BracketLeft') {
         e.preventDefault();
-        handlers.onBpmDecrease();
+        handlers.onBpmDecrease(e.shiftKey);
         return;
       }
       if (e.code === 'BracketRight') {
         e.preventDefault();
-        handlers.onBpmIncrease();
+        handlers.onBpmIncrease(e.shiftKey);
+        return;
+      }
+
+      // T: Tap tempo
+      if (e.code === 'KeyT' && !e.metaKey && !e.ctrlKey) {
+        e.preventDefault();
+        handlers.onTapTempo();
         return;
       }
 
@@ -67,6 +77,22 @@ export const useKeyboardShortcuts = (handlers: ShortcutHandlers, enabled: boolea
         return;
       }
 
+      // Cmd/Ctrl+Z: Undo, Shift+Cmd/Ctrl+Z or Ctrl+Y: Redo
+      if ((e.metaKey || e.ctrlKey) && e.code === 'KeyZ') {
+        e.preventDefault();
+        if (e.shiftKey) {
+          handlers.onRedo();
+        } else {
+          handlers.onUndo();
+        }
+        return;
+      }
+      if (e.ctrlKey && e.code === 'KeyY') {
+        e.preventDefault();
+        handlers.onRedo();
+        return;
+      }
+
       // Cmd/Ctrl+S: Save
       if ((e.metaKey || e.ctrlKey) && e.code === 'KeyS') {
         e.preventDefault();
@@ -0,0 +1,54 @@
+import { useEffect } from 'react';
+import type { Instrument } from '../types';
+
+/** Drum pads on the number row */
+export const RECORD_PAD_KEYS: Record<string, Instrument> = {
+  Digit1: 'kick',
+  Digit2: 'snare',
+  Digit3: 'hihat',
+  Digit4: 'clap',
+};
+
+/** One octave laid out like a piano on the home row: A = C, W = C#, ... K = the C above */
+export const RECORD_NOTE_KEYS = ['KeyA', 'KeyW', 'KeyS', 'KeyE', 'KeyD', 'KeyF', 'KeyT', 'KeyG', 'KeyY', 'KeyH', 'KeyU', 'KeyJ', 'KeyK'];
+
+export interface RecordKeyHandlers {
+  onPad: (inst: Instrument, accent: boolean) => void;
+  onNote: (semitone: number, accent: boolean) => void;
+  onOctave: (delta: number) => void;
+}
+
+/**
+ * Computer keyboard input while record is armed. Shift plays an accent.
+ * Listens in the capture phase and stops the keys it uses, so they don't also
+ * trigger the regular shortcuts (scene select, solo).
+ */
+export const useRecordKeys = (handlers: RecordKeyHandlers, enabled: boolean) => {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA') {
+        return;
+      }
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+
+      const pad = RECORD_PAD_KEYS[e.code];
+      const semitone = RECORD_NOTE_KEYS.indexOf(e.code);
+      const octave = e.code === 'KeyZ' ? -1 : e.code === 'KeyX' ? 1 : 0;
+      if (!pad && semitone === -1 && octave === 0) return;
+
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.repeat) return;
+
+      if (pad) handlers.onPad(pad, e.shiftKey);
+      else if (semitone !== -1) handlers.onNote(semitone, e.shiftKey);
+      else handlers.onOctave(octave);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [handlers, enabled]);
+};
@@ -1,6 +1,182 @@
-export type Instrument = "kick" | "snare" | "hihat" | "clap" | "kick909" | "snare909" | "hihat909" | "clap909" | "bass" | "pad" | "poly";
+export type Instrument = "kick" | "snare" | "hihat" | "openhat" | "clap" | "lowtom" | "midtom" | "hightom" | "rimshot" | "cowbell" | "ride" | "crash" | "sampler" | "slicer" | "kick909" | "snare909" | "hihat909" | "clap909" | "bass" | "pad" | "poly" | "fm";
 
-export const INSTRUMENTS: Instrument[] = ["kick", "snare", "hihat", "clap", "kick909", "snare909", "hihat909", "clap909", "bass", "pad", "poly"];
+export const INSTRUMENTS: Instrument[] = ["kick", "snare", "hihat", "openhat", "clap", "lowtom", "midtom", "hightom", "rimshot", "cowbell", "ride", "crash", "sampler", "slicer", "kick909", "snare909", "hihat909", "clap909", "bass", "pad", "poly", "fm"];
+
+/** Every per-step array in a Scene is stored at this length, regardless of track length. */
+export const MAX_STEPS = 64;
+export const DEFAULT_TRACK_LENGTH = 16;
+
+/** Steps shown per page in the sequencer */
+export const STEPS_PER_PAGE = 16;
+export const PATTERN_LENGTHS = [16, 32, 48, 64];
+
+/** Meter used to group steps visually and to weight randomization */
+export type StepGrouping = '4/4' | '3/4' | '5/4' | '7/8';
+
+/** Per-track step length: 32nd, 16th, 16th triplet, 8th, 8th triplet or quarter note */
+export type StepResolution = '32n' | '16n' | '16t' | '8n' | '8t' | '4n';
+export const STEP_RESOLUTIONS: StepResolution[] = ['32n', '16n', '16t', '8n', '8t', '4n'];
+
+/** When a scene selected during playback actually takes over */
+export type LaunchQuantize = 'immediate' | 'beat' | 'bar' | 'pattern';
+
+/**
+ * Conditional trig rule, evaluated each time the track passes the step.
+ * "A:B" plays on pass A of every B passes; "pre" follows the track's previous conditional trig.
+ */
+export type TrigCondition = 'always' | `${number}:${number}` | 'fill' | '!fill' | 'pre' | '!pre' | 'first' | '!first';
+
+/** Velocity shape across a step's ratchet sub-hits */
+export type RatchetRamp = 'flat' | 'up' | 'down';
+
+export const MAX_RATCHETS = 8;
+
+/**
+ * Per-step parameter overrides, keyed by "instrument.param" path (e.g. "bass.cutoff"),
+ * then by step index.
+ */
+export type ParamLocks = Record<string, Record<number, number>>;
+
+/** Tom tracks share one voice design and are tuned per track */
+export type Tom = 'lowtom' | 'midtom' | 'hightom';
+export const TOMS: Tom[] = ['lowtom', 'midtom', 'hightom'];
+
+/**
+ * A user-loaded audio file. The audio lives in IndexedDB (see utils/samples.ts); scenes only keep the reference.
+ */
+export interface SampleRef {
+  id: string;
+  name: string; // Original file name
+}
+
+/** Per-step sampler pitch range, in semitones either way */
+export const MAX_SAMPLE_PITCH = 24;
+
+/** How the slicer cuts its sample: into equal parts, or at its strongest transients */
+export type SliceMode = 'equal' | 'transients';
+export const SLICE_MODES: SliceMode[] = ['equal', 'transients'];
+
+/** Most slices the slicer cuts a sample into */
+export const MAX_SLICES = 32;
+
+/** Pad chord spacing: close position, or drop 2 (second note from the top down an octave) */
+export type ChordSpread = 'close' | 'drop2';
+export const CHORD_SPREADS: ChordSpread[] = ['close', 'drop2'];
+
+/** Tracks with a per-step note length */
+export type GatedInstrument = 'bass' | 'pad' | 'poly' | 'fm';
+export const GATED_INSTRUMENTS: GatedInstrument[] = ['bass', 'pad', 'poly', 'fm'];
+
+/** Gate lengths offered in the UI, in steps (1 = one 16th) */
+export const GATE_OPTIONS = [0.25, 0.5, 0.75, 1, 1.5, 2, 3, 4, 6, 8, 12, 16];
+export const MIN_GATE = 0.25;
+export const MAX_GATE = 16;
+
+/** Tracks that can arpeggiate their chords */
+export type ArpInstrument = 'pad' | 'poly';
+export const ARP_INSTRUMENTS: ArpInstrument[] = ['pad', 'poly'];
+
+/** Arp note order; 'played' keeps the chord's own order (pad voicing, or poly notes as entered) */
+export type ArpMode = 'up' | 'down' | 'updown' | 'random' | 'played';
+export const ARP_MODES: ArpMode[] = ['up', 'down', 'updown', 'random', 'played'];
+
+export const MAX_ARP_OCTAVES = 4;
+
+export interface ArpSettings {
+  enabled: boolean;
+  mode: ArpMode;
+  rate: StepResolution; // Arp note spacing, independent of the track's step resolution
+  octaves: number; // 1 to MAX_ARP_OCTAVES
+  gate: number; // Arp note length, 0-1 of the rate
+  latch: boolean; // Keep arpeggiating until the track's next trig instead of stopping at the step's gate
+}
+
+/** FM synth: up to four sine operators, numbered from 1 */
+export const MAX_FM_OPERATORS = 4;
+export const MIN_FM_OPERATORS = 2;
+
+/** Per-operator FM params, stored flat as `op1Ratio`, `op2Level`... so each one can be locked per step */
+export type FMOperatorParam = 'Ratio' | 'Level' | 'Attack' | 'Decay' | 'Sustain' | 'Release';
+export const FM_OPERATOR_PARAMS: FMOperatorParam[] = ['Ratio', 'Level', 'Attack', 'Decay', 'Sustain', 'Release'];
+export type FMOperatorKey = `op${1 | 2 | 3 | 4}${FMOperatorParam}`;
+
+/**
+ * How the operators are wired: `modulates[i]` is the (0-based) operator that operator i+1
+ * modulates, or null for a carrier heard at the output. Operator 1 is always a carrier.
+ */
+export interface FMAlgorithm {
+  label: string;
+  modulates: (number | null)[];
+}
+
+export const FM_ALGORITHMS: FMAlgorithm[] = [
+  { label: '4→3→2→1', modulates: [null, 0, 1, 2] },
+  { label: '3+4→2→1', modulates: [null, 0, 1, 1] },
+  { label: '2+3+4→1', modulates: [null, 0, 0, 0] },
+  { label: '2→1, 4→3', modulates: [null, 0, null, 2] },
+  { label: '2→1, 3, 4', modulates: [null, 0, null, null] },
+  { label: '1+2+3+4', modulates: [null, null, null, null] },
+];
+
+export type FMParams = {
+  operators: number; // Operators in use, MIN_FM_OPERATORS to MAX_FM_OPERATORS
+  algorithm: number; // Index into FM_ALGORITHMS
+} & Record<FMOperatorKey, number>; // Ratio to the note, level (carrier) or index (modulator), ADSR in seconds/0-1
+
+/** Live recording: overdub adds hits; replace clears the steps a recorded track passes over */
+export type RecordMode = 'overdub' | 'replace';
+
+/**
+ * Where the transport is: bar, beat and 16th count from 1 in the scene's meter
+ */
+export interface TransportPosition {
+  bar: number; // Bars since the transport started
+  beat: number;
+  sixteenth: number;
+  loop: number; // Repetition of the current scene's pattern
+  elapsed: number; // Seconds since the transport started (after any count-in)
+}
+
+/** Metronome click voices */
+export type MetronomeSound = 'click' | 'beep' | 'wood';
+export const METRONOME_SOUNDS: MetronomeSound[] = ['click', 'beep', 'wood'];
+
+/**
+ * Choke groups: a trig on one member of a group cuts the tails of the others
+ * (e.g. a closed hat silencing an open hat). Groups are numbered from 1.
+ */
+export const MAX_CHOKE_GROUPS = 4;
+
+/** Largest micro-timing offset, in percent of a 16th */
+export const MAX_NUDGE = 50;
+
+/** Tempo range; BPM is kept to one decimal place */
+export const MIN_BPM = 30;
+export const MAX_BPM = 300;
+
+/**
+ * Groove template: per-step timing offsets (percent of a 16th) and velocity scales (percent),
+ * repeating every `timing.length` steps from the scene start.
+ */
+export interface GrooveTemplate {
+  id: string;
+  name: string;
+  timing: number[];
+  velocity: number[];
+}
+
+/** Longest groove cycle, in steps */
+export const MAX_GROOVE_STEPS = 16;
+
+export const TRIG_CONDITIONS: TrigCondition[] = [
+  'always',
+  '1:2', '2:2',
+  '1:3', '2:3', '3:3',
+  '1:4', '2:4', '3:4', '4:4',
+  'fill', '!fill',
+  'pre', '!pre',
+  'first', '!first',
+];
 
 export interface DrumState {
   bpm: number;
@@ -23,10 +199,75 @@ export interface InstrumentParams {
     decay: number;
     tone: number;
   };
+  openhat: {
+    decay: number;
+    tone: number; // Highpass cutoff
+  };
   clap: {
     decay: number;
     tone: number;
   };
+  lowtom: {
+    tune: number; // Body pitch in Hz
+    decay: number;
+  };
+  midtom: {
+    tune: number;
+    decay: number;
+  };
+  hightom: {
+    tune: number;
+    decay: number;
+  };
+  rimshot: {
+    tune: number; // Lower ping in Hz; the upper one follows
+    decay: number;
+  };
+  cowbell: {
+    tune: number; // Lower square in Hz; the upper one follows
+    decay: number;
+  };
+  ride: {
+    decay: number;
+    tone: number; // Highpass cutoff
+  };
+  crash: {
+    decay: number;
+    tone: number; // Highpass cutoff
+  };
+  sampler: {
+    start: number; // Playback region, 0-1 of the sample length
+    end: number;
+    pitch: number; // Semitones, added to the per-step pitch
+    reverse: number; // 1 plays the region backwards (numeric so it can be locked per step)
+    attack: number; // Fade-in in seconds
+    release: number; // Fade-out in seconds after the end point
+  };
+  slicer: {
+    pitch: number; // Semitones
+    attack: number; // Fade-in in seconds
+    release: number; // Fade-out in seconds after the slice end
+  };
+  kick909: {
+    tune: number; // Body pitch in Hz
+    sweep: number; // Pitch sweep time in seconds
+    decay: number;
+    click: number; // Beater click level, 0-1
+  };
+  snare909: {
+    tune: number; // Lower body oscillator in Hz; the upper one follows
+    tone: number; // Noise lowpass cutoff
+    snappy: number; // Noise level, 0-1
+    decay: number;
+  };
+  hihat909: {
+    decay: number;
+    tone: number;
+  };
+  clap909: {
+    decay: number; // Tail after the bursts
+    tone: number;
+  };
   bass: {
     cutoff: number;
     resonance: number;
@@ -49,6 +290,7 @@ export interface InstrumentParams {
     detune: number;
     oscillator: 'sawtooth' | 'square' | 'triangle';
   };
+  fm: FMParams;
 }
 
 export interface ProModeParams {
@@ -91,22 +333,65 @@ export interface Scene {
   name: string;
   grid: Record<Instrument, boolean[]>;
   bassPitches: number[];
+  bassAccents: boolean[]; // 303 accent: louder with more filter env mod
+  bassSlides: boolean[]; // 303 slide: glide legato into the next bass note
   padPitches: number[];
-  padVoicings: string[];
-  polyNotes: number[][]; // Array of 16 steps, each containing array of MIDI notes
+  padVoicings: string[]; // Chord type per step, a key of CHORDS (utils/chords.ts)
+  padInversions: number[]; // 0 is root position, up to MAX_INVERSION
+  padSpread: ChordSpread;
+  padVoiceLeading: boolean; // Revoice each chord close to the previous one (overrides the inversions)
+  arps: Record<ArpInstrument, ArpSettings>;
+  polyNotes: number[][]; // Array of MAX_STEPS steps, each containing array of MIDI notes
+  fmNotes: number[][]; // Same layout as polyNotes
+  gates: Record<GatedInstrument, number[]>; // Note length in steps; a gate covering the whole of a later trig with the same notes ties into it
+  trackLengths: Record<Instrument, number>; // Per-track pattern length (1 to MAX_STEPS) for polymeter
+  trackResolutions: Record<Instrument, StepResolution>;
+  patternLength: number; // Scene length in steps, one of PATTERN_LENGTHS
+  stepGrouping: StepGrouping;
   volumes: Record<Instrument, number>;
   reverbSends: Record<Instrument, number>;
   delaySends: Record<Instrument, number>;
   eqGains: Record<Instrument, { low: number; mid: number; high: number }>;
   velocities: Record<Instrument, number[]>;
+  probabilities: Record<Instrument, number[]>; // Per-step trig chance, 0-100
+  conditions: Record<Instrument, TrigCondition[]>;
+  nudges: Record<Instrument, number[]>; // Micro-timing in percent of a 16th, -MAX_NUDGE to MAX_NUDGE
+  ratchets: Record<Instrument, number[]>; // Sub-hits per step, 1 to MAX_RATCHETS
+  ratchetRamps: Record<Instrument, RatchetRamp[]>;
+  paramLocks: ParamLocks;
   params: InstrumentParams;
   mutes: Record<Instrument, boolean>;
   solos: Record<Instrument, boolean>;
   bpm: number;
   swing: number;
+  groove: string; // Groove template id applied to every track that follows the global groove
+  trackGrooves: Record<Instrument, string | null>; // null follows the global groove
+  trackSwing: Record<Instrument, number | null>; // null follows the global swing
+  chokeGroups: Record<Instrument, number | null>; // 1 to MAX_CHOKE_GROUPS, null is no group
+  sample: SampleRef | null; // Audio loaded on the sampler track
+  samplerPitches: number[]; // Per-step offset in semitones, -MAX_SAMPLE_PITCH to MAX_SAMPLE_PITCH
+  slicerSample: SampleRef | null; // Audio loaded on the slicer track
+  slicerMode: SliceMode;
+  slicerCount: number; // Slices to cut, 1 to MAX_SLICES (transient mode may find fewer)
+  slicerSlices: number[]; // Per-step slice index
 }
 
 
+/**
+ * One slot of the song arrangement: play a scene for a number of pattern repeats.
+ */
+export interface SongEntry {
+  sceneIndex: number;
+  repeats: number;
+}
+
+export interface Song {
+  entries: SongEntry[];
+  loopEnabled: boolean;
+  loopStart: number; // Entry index
+  loopEnd: number; // Entry index (inclusive)
+}
+
 export interface SceneBank {
   scenes: Scene[];
   activeSceneIndex: number;
@@ -120,4 +405,12 @@ export interface ProjectFile {
   timestamp: number;
   scenes: Scene[];
   proModeParams?: ProModeParams;
+  song?: Song;
+  grooves?: GrooveTemplate[]; // User-defined groove templates
+  samples?: EmbeddedSample[]; // Audio for the scenes' sampler and slicer tracks
+}
+
+/** Sample audio carried inside a project file, base64-encoded */
+export interface EmbeddedSample extends SampleRef {
+  data: string;
 }
@@ -0,0 +1,49 @@
+import type { ArpMode, ArpSettings, StepResolution } from '../types';
+import { ARP_MODES, MAX_ARP_OCTAVES, STEP_RESOLUTIONS } from '../types';
+
+export const DEFAULT_ARP: ArpSettings = {
+  enabled: false,
+  mode: 'up',
+  rate: '16n',
+  octaves: 1,
+  gate: 0.5,
+  latch: false,
+};
+
+export const ARP_MODE_LABELS: Record<ArpMode, string> = {
+  up: 'Up',
+  down: 'Down',
+  updown: 'Up/Down',
+  random: 'Random',
+  played: 'Played',
+};
+
+/**
+ * Notes an arp cycles through for a chord (MIDI, in the order played), spread over `octaves`.
+ * Random uses the up order; the engine picks from it at random.
+ */
+export const getArpSequence = (notes: number[], mode: ArpMode, octaves: number): number[] => {
+  const ordered = mode === 'played' ? notes : [...notes].sort((a, b) => a - b);
+  const spread = Array.from({ length: Math.max(1, octaves) }, (_, o) => ordered.map(n => n + o * 12)).flat();
+  switch (mode) {
+    case 'down': return spread.reverse();
+    // Up then back down, without repeating the top and bottom notes
+    case 'updown': return spread.length > 2 ? [...spread, ...spread.slice(1, -1).reverse()] : spread;
+    default: return spread;
+  }
+};
+
+/**
+ * Check arp settings read from a saved scene, filling anything missing or invalid from the defaults
+ */
+export const sanitizeArp = (value: unknown): ArpSettings => {
+  const arp = (value && typeof value === 'object' ? value : {}) as Partial<ArpSettings>;
+  return {
+    enabled: arp.enabled === true,
+    mode: ARP_MODES.includes(arp.mode as ArpMode) ? arp.mode as ArpMode : DEFAULT_ARP.mode,
+    rate: STEP_RESOLUTIONS.includes(arp.rate as StepResolution) ? arp.rate as StepResolution : DEFAULT_ARP.rate,
+    octaves: Math.max(1, Math.min(MAX_ARP_OCTAVES, Math.round(Number(arp.octaves)) || DEFAULT_ARP.octaves)),
+    gate: Math.max(0.05, Math.min(1, Number(arp.gate) || DEFAULT_ARP.gate)),
+    latch: arp.latch === true,
+  };
+};
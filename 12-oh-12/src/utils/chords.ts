@@ -0,0 +1,83 @@
+import type { ChordSpread } from '../types';
+
+/**
+ * Chords the pad track can play per step, as semitones above the root. The step's chord
+ * select lists these in this order, and the engine builds its notes from the same table.
+ */
+export const CHORDS = {
+  single: [0],
+  octave: [0, 12],
+  fifth: [0, 7],
+  major: [0, 4, 7],
+  minor: [0, 3, 7],
+  sus2: [0, 2, 7],
+  sus4: [0, 5, 7],
+  dim: [0, 3, 6],
+  aug: [0, 4, 8],
+  maj6: [0, 4, 7, 9],
+  min6: [0, 3, 7, 9],
+  maj7: [0, 4, 7, 11],
+  min7: [0, 3, 7, 10],
+  dom7: [0, 4, 7, 10],
+  dim7: [0, 3, 6, 9],
+  m7b5: [0, 3, 6, 10],
+  add9: [0, 4, 7, 14],
+  madd9: [0, 3, 7, 14],
+  maj9: [0, 4, 7, 11, 14],
+  min9: [0, 3, 7, 10, 14],
+  dom9: [0, 4, 7, 10, 14],
+} satisfies Record<string, number[]>;
+
+export type ChordType = keyof typeof CHORDS;
+export const CHORD_TYPES = Object.keys(CHORDS) as ChordType[];
+
+export const isChordType = (value: unknown): value is ChordType =>
+  typeof value === 'string' && value in CHORDS;
+
+/** Inversions offered per step; chords with fewer notes wrap around */
+export const MAX_INVERSION = 3;
+export const INVERSION_LABELS = ['root', '1st', '2nd', '3rd'];
+
+/**
+ * MIDI notes of a chord. Each inversion moves the lowest note above the highest.
+ */
+export const buildChord = (root: number, type: ChordType, inversion = 0, spread: ChordSpread = 'close'): number[] => {
+  const notes = (CHORDS[type] ?? CHORDS.single).map(interval => root + interval);
+  const turns = notes.length > 1 ? inversion % notes.length : 0;
+  for (let i = 0; i < turns; i++) {
+    let note = notes.shift() as number;
+    while (note <= notes[notes.length - 1]) note += 12;
+    notes.push(note);
+  }
+  if (spread === 'drop2' && notes.length >= 3) {
+    notes[notes.length - 2] -= 12;
+    notes.sort((a, b) => a - b);
+  }
+  return notes;
+};
+
+// How far a chord's notes sit from the nearest notes of the one before
+const getMovement = (from: number[], to: number[]): number =>
+  to.reduce((sum, note) => sum + Math.min(...from.map(f => Math.abs(f - note))), 0);
+
+/**
+ * Voice a chord as close as possible to the previous one: try each inversion, in place and an
+ * octave down, and keep the one whose notes move least. The step's own inversion is ignored.
+ * Candidates stay within an octave of the root, so a progression can't drift out of range.
+ */
+export const leadChord = (previous: number[], root: number, type: ChordType, spread: ChordSpread): number[] => {
+  const size = (CHORDS[type] ?? CHORDS.single).length;
+  let best = buildChord(root, type, 0, spread);
+  let bestMovement = getMovement(previous, best);
+  for (let inversion = 0; inversion < size; inversion++) {
+    for (const shift of [0, -12]) {
+      const candidate = buildChord(root, type, inversion, spread).map(note => note + shift);
+      const movement = getMovement(previous, candidate);
+      if (movement < bestMovement) {
+        best = candidate;
+        bestMovement = movement;
+      }
+    }
+  }
+  return best;
+};
@@ -0,0 +1,65 @@
+import type { GrooveTemplate } from '../types';
+import { MAX_GROOVE_STEPS } from '../types';
+
+export const DEFAULT_GROOVE_ID = 'straight';
+
+/** Groove timing range, in percent of a 16th */
+export const MAX_GROOVE_TIMING = 50;
+/** Groove velocity range, in percent of the step velocity */
+export const MAX_GROOVE_VELOCITY = 150;
+
+/**
+ * MPC-style swing: the second 16th of each pair lands at `percent` of the 8th
+ */
+const mpcSwing = (percent: number): GrooveTemplate => ({
+  id: `mpc${percent}`,
+  name: `MPC ${percent}%`,
+  timing: [0, (percent - 50) * 2],
+  velocity: [100, 100],
+});
+
+export const BUILT_IN_GROOVES: GrooveTemplate[] = [
+  { id: DEFAULT_GROOVE_ID, name: 'Straight', timing: [0], velocity: [100] },
+  mpcSwing(54),
+  mpcSwing(58),
+  mpcSwing(62),
+  mpcSwing(66),
+  mpcSwing(71),
+  mpcSwing(75),
+  // Late, softer off-beats with a lighter third 16th
+  { id: 'shuffle', name: 'Shuffle', timing: [0, 42, 0, 42], velocity: [100, 70, 90, 70] },
+  // Off 16ths pushed onto the 8th-note triplet grid
+  { id: 'triplet', name: 'Triplet Feel', timing: [0, 33, 0, 33], velocity: [100, 85, 95, 85] },
+];
+
+export const isBuiltInGroove = (id: string): boolean => BUILT_IN_GROOVES.some(g => g.id === id);
+
+/**
+ * Start a user groove from an existing template
+ */
+export const createUserGroove = (base: GrooveTemplate, name: string): GrooveTemplate => ({
+  id: `user-${Date.now().toString(36)}`,
+  name,
+  timing: [...base.timing],
+  velocity: [...base.velocity],
+});
+
+/**
+ * Clamp a groove to the valid ranges, padding velocity to the timing length.
+ * Returns null when there is nothing usable.
+ */
+export const sanitizeGroove = (groove: unknown): GrooveTemplate | null => {
+  if (!groove || typeof groove !== 'object') return null;
+  const g = groove as Partial<GrooveTemplate>;
+  if (typeof g.id !== 'string' || !Array.isArray(g.timing) || g.timing.length === 0) return null;
+
+  const length = Math.min(g.timing.length, MAX_GROOVE_STEPS);
+  const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+    Math.max(min, Math.min(max, typeof value === 'number' && !isNaN(value) ? value : fallback));
+  return {
+    id: g.id,
+    name: typeof g.name === 'string' && g.name ? g.name : 'Groove',
+    timing: g.timing.slice(0, length).map(t => clamp(t, -MAX_GROOVE_TIMING, MAX_GROOVE_TIMING, 0)),
+    velocity: Array.from({ length }, (_, i) => clamp(g.velocity?.[i], 0, MAX_GROOVE_VELOCITY, 100)),
+  };
+};
@@ -1,18 +1,27 @@
-import type { Instrument } from '../types';
+import type { Instrument, StepGrouping } from '../types';
+import { DEFAULT_TRACK_LENGTH } from '../types';
+import { getStepPosition, STEP_GROUPINGS } from './steps';
 
 /**
  * Randomize a track with musical intelligence
  * @param instrument - The instrument to randomize
  * @param density - How filled the pattern should be (0-1)
- * @returns Array of 16 booleans representing the pattern
+ * @param length - Number of steps to generate
+ * @param grouping - Meter used to place accents
+ * @returns Array of booleans representing the pattern
  */
-export const randomizeTrack = (instrument: Instrument, density: number): boolean[] => {
-  const pattern = new Array(16).fill(false);
+export const randomizeTrack = (
+  instrument: Instrument,
+  density: number,
+  length: number = DEFAULT_TRACK_LENGTH,
+  grouping: StepGrouping = '4/4'
+): boolean[] => {
+  const pattern = new Array(length).fill(false);
   
   // Musical weights for each instrument
-  const weights = getWeightsForInstrument(instrument);
+  const weights = getWeightsForInstrument(instrument, length, grouping);
   
-  for (let i = 0; i < 16; i++) {
+  for (let i = 0; i < length; i++) {
     const weight = weights[i];
     const threshold = 1 - (density * weight);
     pattern[i] = Math.random() > threshold;
@@ -22,70 +31,104 @@ export const randomizeTrack = (instrument: Instrument, density: number): boolean
 };
 
 /**
- * Get musical weights for each step based on instrument type
+ * Get musical weights for each step based on instrument type.
+ * Positions are derived from the meter, so "beat 1" is the start of each bar
+ * and backbeats are the odd beats of the bar (2 and 4 in 4/4).
  */
-const getWeightsForInstrument = (instrument: Instrument): number[] => {
-  const weights = new Array(16).fill(0.5);
-  
-  switch (instrument) {
-    case 'kick':
-    case 'kick909':
-      // Favor beats 1, 5, 9, 13 (quarter notes)
-      weights[0] = 1.5;
-      weights[4] = 1.3;
-      weights[8] = 1.3;
-      weights[12] = 1.3;
-      // Secondary emphasis on beats 3, 7, 11, 15
-      weights[2] = 0.8;
-      weights[6] = 0.8;
-      weights[10] = 0.8;
-      weights[14] = 0.8;
-      break;
-      
-    case 'snare':
-    case 'snare909':
-      // Favor backbeats (5, 13)
-      weights[4] = 1.8;
-      weights[12] = 1.8;
-      // Secondary on beats 1, 9
-      weights[0] = 0.7;
-      weights[8] = 0.7;
-      break;
-      
-    case 'hihat':
-    case 'hihat909':
-      // Even distribution, slight emphasis on off-beats
-      for (let i = 0; i < 16; i++) {
-        weights[i] = i % 2 === 1 ? 1.1 : 0.9;
-      }
-      break;
-      
-    case 'clap':
-    case 'clap909':
-      // Similar to snare but less frequent
-      weights[4] = 1.5;
-      weights[12] = 1.5;
-      break;
-      
-    case 'bass':
-      // Follow kick pattern tendency
-      weights[0] = 1.3;
-      weights[2] = 1.0;
-      weights[4] = 1.1;
-      weights[6] = 1.0;
-      weights[8] = 1.1;
-      weights[10] = 1.0;
-      weights[12] = 1.1;
-      weights[14] = 1.0;
-      break;
-      
-    case 'pad':
-      // Sparse, long notes
-      weights[0] = 1.5;
-      weights[4] = 1.2;
-      weights[8] = 1.2;
-      weights[12] = 1.2;
-      break;
+const getWeightsForInstrument = (instrument: Instrument, length: number, grouping: StepGrouping): number[] => {
+  const weights = new Array(length).fill(0.5);
+  const lastBeat = STEP_GROUPINGS[grouping].length - 1;
+  
+  for (let i = 0; i < length; i++) {
+    const { beat, offset } = getStepPosition(i, grouping);
+    const isDownbeat = beat === 0 && offset === 0;
+    const isBeat = offset === 0;
+    const isBackbeat = isBeat && beat % 2 === 1;
+    const isOffEighth = offset === 2;
+    const isLastBeat = beat === lastBeat;
+
+    switch (instrument) {
+      case 'kick':
+      case 'kick909':
+        // Favor the downbeat, then every beat
+        if (isDownbeat) weights[i] = 1.5;
+        else if (isBeat) weights[i] = 1.3;
+        // Secondary emphasis on the off-beat eighths
+        else if (isOffEighth) weights[i] = 0.8;
+        break;
+        
+      case 'snare':
+      case 'snare909':
+        // Favor backbeats
+        if (isBackbeat) weights[i] = 1.8;
+        // Secondary on the remaining beats
+        else if (isBeat) weights[i] = 0.7;
+        break;
+        
+      case 'hihat':
+      case 'hihat909':
+        // Even distribution, slight emphasis on off-beats
+        weights[i] = offset % 2 === 1 ? 1.1 : 0.9;
+        break;
+
+      case 'openhat':
+        // The classic off-beat open hat
+        if (isOffEighth) weights[i] = 1.8;
+        else weights[i] = 0.4;
+        break;
+        
+      case 'clap':
+      case 'clap909':
+        // Similar to snare but less frequent
+        if (isBackbeat) weights[i] = 1.5;
+        break;
+        
+      case 'lowtom':
+      case 'midtom':
+      case 'hightom':
+        // Mostly fills on the last beat, leading into the next bar
+        weights[i] = isLastBeat ? 1.3 : 0.2;
+        break;
+
+      case 'rimshot':
+        // Syncopated 16ths, with some backbeats
+        if (offset % 2 === 1) weights[i] = 1.2;
+        else if (isBackbeat) weights[i] = 1.0;
+        else weights[i] = 0.3;
+        break;
+
+      case 'cowbell':
+        // Off-beat eighths, then the odd 16ths
+        if (isOffEighth) weights[i] = 1.4;
+        else if (offset % 2 === 1) weights[i] = 0.7;
+        else weights[i] = 0.3;
+        break;
+
+      case 'ride':
+        // Quarter notes, with off-beat eighths between them
+        if (isBeat) weights[i] = 1.5;
+        else if (isOffEighth) weights[i] = 1.0;
+        else weights[i] = 0.3;
+        break;
+
+      case 'crash':
+        // Only at the top of a bar
+        weights[i] = isDownbeat ? 1.2 : 0;
+        break;
+
+      case 'bass':
+        // Follow kick pattern tendency
+        if (isDownbeat) weights[i] = 1.3;
+        else if (isBeat) weights[i] = 1.1;
+        else if (isOffEighth) weights[i] = 1.0;
+        break;
+        
+      case 'pad':
+        // Sparse, long notes
+        if (isDownbeat) weights[i] = 1.5;
+        else if (isBeat) weights[i] = 1.2;
+        break;
+    }
   }
   
   return weights;
@@ -0,0 +1,81 @@
+import type { SampleRef, EmbeddedSample } from '../types';
+
+// Audio is too large for localStorage, so sample files are kept in IndexedDB keyed by id
+const DB_NAME = 'drum-machine-samples';
+const STORE_NAME = 'samples';
+
+/** File types offered when loading a sample */
+export const SAMPLE_FILE_TYPES = '.wav,.aif,.aiff,.mp3,audio/*';
+
+export interface StoredSample extends SampleRef {
+  data: ArrayBuffer; // The file as loaded, still encoded
+}
+
+export const createSampleId = (): string =>
+  `sample-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const runRequest = <T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  openDatabase().then(db => new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = makeRequest(transaction.objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    transaction.oncomplete = () => db.close();
+  }));
+
+/**
+ * Store a sample, replacing any with the same id
+ */
+export const saveSample = (sample: StoredSample): Promise<void> =>
+  runRequest('readwrite', store => store.put(sample)).then(() => undefined);
+
+/**
+ * Read a sample back, or null if this browser doesn't have it
+ */
+export const loadSample = (id: string): Promise<StoredSample | null> =>
+  runRequest<StoredSample | undefined>('readonly', store => store.get(id)).then(sample => sample ?? null);
+
+/**
+ * Base64-encode a sample for a project file
+ */
+export const embedSample = (sample: StoredSample): EmbeddedSample => {
+  const bytes = new Uint8Array(sample.data);
+  let binary = '';
+  // Chunked, so large files don't overflow the argument list
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return { id: sample.id, name: sample.name, data: btoa(binary) };
+};
+
+/**
+ * Decode a sample embedded in a project file
+ */
+export const extractSample = (sample: EmbeddedSample): StoredSample => {
+  const binary = atob(sample.data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return { id: sample.id, name: sample.name, data: bytes.buffer };
+};
+
+/**
+ * Check a sample reference read from a saved scene
+ */
+export const isSampleRef = (value: unknown): value is SampleRef =>
+  !!value && typeof value === 'object' &&
+  typeof (value as SampleRef).id === 'string' && typeof (value as SampleRef).name === 'string';
+
+/**
+ * Keep only well-formed embedded samples from a project file
+ */
+export const sanitizeEmbeddedSamples = (samples: unknown): EmbeddedSample[] => {
+  if (!Array.isArray(samples)) return [];
+  return samples.filter((s): s is EmbeddedSample => isSampleRef(s) && typeof (s as EmbeddedSample).data === 'string');
+};
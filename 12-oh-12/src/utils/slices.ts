@@ -0,0 +1,57 @@
+import type { SliceMode } from '../types';
+
+export const DEFAULT_SLICE_COUNT = 8;
+
+// Transient detection works on the energy of short frames
+const FRAME_SIZE = 512;
+// Closest two detected slices may start, in seconds, so one drum hit isn't cut twice
+const MIN_SLICE_GAP = 0.05;
+
+/**
+ * Where each slice starts, as 0-1 of the sample length. The first slice always starts at 0
+ * and each slice ends where the next begins. Transient mode cuts at the `count - 1` strongest
+ * rises in level, so a quiet or sparse sample can give fewer slices than asked for.
+ */
+export const findSlicePoints = (data: Float32Array, sampleRate: number, mode: SliceMode, count: number): number[] => {
+  if (mode === 'equal' || count <= 1) {
+    return Array.from({ length: Math.max(1, count) }, (_, i) => i / Math.max(1, count));
+  }
+
+  const frames = Math.floor(data.length / FRAME_SIZE);
+  const energy = new Float32Array(frames);
+  for (let f = 0; f < frames; f++) {
+    let sum = 0;
+    for (let i = f * FRAME_SIZE; i < (f + 1) * FRAME_SIZE; i++) sum += data[i] * data[i];
+    energy[f] = Math.sqrt(sum / FRAME_SIZE);
+  }
+
+  // Onset strength is how much louder a frame is than the one before; its local peaks are the candidates
+  const rise = (f: number) => f > 0 ? Math.max(0, energy[f] - energy[f - 1]) : 0;
+  const candidates: { frame: number; strength: number }[] = [];
+  for (let f = 1; f < frames - 1; f++) {
+    const strength = rise(f);
+    if (strength > 0 && strength >= rise(f - 1) && strength >= rise(f + 1)) candidates.push({ frame: f, strength });
+  }
+
+  const minGap = Math.ceil((MIN_SLICE_GAP * sampleRate) / FRAME_SIZE);
+  const starts = [0];
+  candidates
+    .sort((a, b) => b.strength - a.strength)
+    .forEach(({ frame }) => {
+      if (starts.length < count && starts.every(s => Math.abs(s - frame) >= minGap)) starts.push(frame);
+    });
+
+  return starts.sort((a, b) => a - b).map(frame => (frame * FRAME_SIZE) / data.length);
+};
+
+/**
+ * Peak level of each of `bins` equal parts of the sample, for drawing its waveform
+ */
+export const getWaveformPeaks = (data: Float32Array, bins: number): number[] => {
+  const size = data.length / bins;
+  return Array.from({ length: bins }, (_, b) => {
+    let peak = 0;
+    for (let i = Math.floor(b * size); i < Math.floor((b + 1) * size); i++) peak = Math.max(peak, Math.abs(data[i]));
+    return peak;
+  });
+};
@@ -0,0 +1,123 @@
+import type { StepGrouping, StepResolution } from '../types';
+import { MAX_STEPS, DEFAULT_TRACK_LENGTH, PATTERN_LENGTHS } from '../types';
+
+/**
+ * Pad (or truncate) a per-step array to MAX_STEPS entries.
+ * Older scenes were saved with 16 steps, so missing entries are filled with the default.
+ */
+export const fitSteps = <T>(values: T[] | undefined, fill: T): T[] => {
+  const result = new Array<T>(MAX_STEPS).fill(fill);
+  if (!Array.isArray(values)) return result;
+  for (let i = 0; i < Math.min(values.length, MAX_STEPS); i++) {
+    if (values[i] !== undefined && values[i] !== null) result[i] = values[i];
+  }
+  return result;
+};
+
+/**
+ * Clamp a track length to the valid range (1 to MAX_STEPS)
+ */
+export const clampTrackLength = (length: number): number => {
+  if (typeof length !== 'number' || isNaN(length)) return DEFAULT_TRACK_LENGTH;
+  return Math.max(1, Math.min(MAX_STEPS, Math.round(length)));
+};
+
+/**
+ * Snap a scene length to the nearest supported pattern length
+ */
+export const clampPatternLength = (length: number): number => {
+  if (typeof length !== 'number' || isNaN(length)) return PATTERN_LENGTHS[0];
+  return PATTERN_LENGTHS.reduce((best, l) => Math.abs(l - length) < Math.abs(best - length) ? l : best, PATTERN_LENGTHS[0]);
+};
+
+/**
+ * Beat lengths (in 16th steps) making up one bar of each meter.
+ * 7/8 is counted as 2+2+3 eighths.
+ */
+export const STEP_GROUPINGS: Record<StepGrouping, number[]> = {
+  '4/4': [4, 4, 4, 4],
+  '3/4': [4, 4, 4],
+  '5/4': [4, 4, 4, 4, 4],
+  '7/8': [4, 4, 6],
+};
+
+export const getBarLength = (grouping: StepGrouping): number =>
+  STEP_GROUPINGS[grouping].reduce((sum, beat) => sum + beat, 0);
+
+export interface StepPosition {
+  bar: number;
+  beat: number; // Beat index within the bar
+  offset: number; // Step offset within the beat
+}
+
+/**
+ * Locate a step within the meter
+ */
+export const getStepPosition = (step: number, grouping: StepGrouping): StepPosition => {
+  const beats = STEP_GROUPINGS[grouping];
+  const barLength = getBarLength(grouping);
+  const bar = Math.floor(step / barLength);
+  let offset = step % barLength;
+  let beat = 0;
+  while (offset >= beats[beat]) {
+    offset -= beats[beat];
+    beat++;
+  }
+  return { bar, beat, offset };
+};
+
+/**
+ * Locate a tick of a looping pattern within the meter. The bar count restarts each time the
+ * pattern wraps, so when the pattern isn't a whole number of bars (5/4 or 7/8 over 16 steps,
+ * say) its last bar is cut short instead of the downbeats drifting from loop to loop.
+ */
+export const getPatternPosition = (tick: number, patternLength: number, grouping: StepGrouping): StepPosition =>
+  getStepPosition(tick % patternLength, grouping);
+
+/**
+ * Split a range of steps [start, end) into beat groups for display.
+ * Groups follow the meter, so a page may begin or end with a partial beat.
+ */
+export const getStepGroups = (start: number, end: number, grouping: StepGrouping): number[][] => {
+  const groups: number[][] = [];
+  let current: number[] = [];
+  for (let step = start; step < end; step++) {
+    if (current.length > 0 && getStepPosition(step, grouping).offset === 0) {
+      groups.push(current);
+      current = [];
+    }
+    current.push(step);
+  }
+  if (current.length > 0) groups.push(current);
+  return groups;
+};
+
+/**
+ * The sequencer clock runs in 16ths split into sub-ticks, fine enough for both straight and triplet steps
+ */
+export const SUBTICKS_PER_SIXTEENTH = 6;
+
+/** Length of one step at each resolution, in sub-ticks */
+export const RESOLUTION_SUBTICKS: Record<StepResolution, number> = {
+  '32n': 3,
+  '16n': 6,
+  '16t': 4,
+  '8n': 12,
+  '8t': 8,
+  '4n': 24,
+};
+
+export const RESOLUTION_LABELS: Record<StepResolution, string> = {
+  '32n': '1/32',
+  '16n': '1/16',
+  '16t': '1/16T',
+  '8n': '1/8',
+  '8t': '1/8T',
+  '4n': '1/4',
+};
+
+/**
+ * Label a gate length in steps: fractions as a percentage of a step, longer gates in steps
+ */
+export const formatGate = (gate: number): string =>
+  gate < 1 ? `${Math.round(gate * 100)}%` : `${gate}st`;
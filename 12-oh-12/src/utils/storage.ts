@@ -1,9 +1,21 @@
-import type { Scene, Instrument, InstrumentParams } from '../types';
+import type { Scene, Instrument, InstrumentParams, EmbeddedSample, Song, SongEntry, TrigCondition, RatchetRamp, ParamLocks, GatedInstrument, GrooveTemplate, StepResolution } from '../types';
+import { MAX_STEPS, DEFAULT_TRACK_LENGTH, TRIG_CONDITIONS, MAX_RATCHETS, MAX_NUDGE, GATED_INSTRUMENTS, MIN_GATE, MAX_GATE, STEP_RESOLUTIONS, MAX_CHOKE_GROUPS, MAX_SAMPLE_PITCH, SLICE_MODES, MAX_SLICES, CHORD_SPREADS } from '../types';
+import { fitSteps, clampTrackLength, clampPatternLength, STEP_GROUPINGS } from './steps';
+import { DEFAULT_GROOVE_ID, isBuiltInGroove, sanitizeGroove } from './grooves';
+import { clampBpm } from './tempo';
+import { isSampleRef, sanitizeEmbeddedSamples } from './samples';
+import { DEFAULT_SLICE_COUNT } from './slices';
+import { isChordType, MAX_INVERSION } from './chords';
+import { DEFAULT_ARP, sanitizeArp } from './arp';
 
 const STORAGE_KEY = 'drum-machine-scenes';
 const AUTO_SAVE_KEY = 'drum-machine-autosave';
 
 const PRO_PARAMS_KEY = 'drum-machine-pro-params';
+const SONG_KEY = 'drum-machine-song';
+const GROOVES_KEY = 'drum-machine-grooves';
+
+export const MAX_SONG_REPEATS = 64;
 
 export const DEFAULT_PRO_MODE_PARAMS: import('../types').ProModeParams = {
   masterVolume: 0,
@@ -42,18 +54,55 @@ export const DEFAULT_PRO_MODE_PARAMS: import('../types').ProModeParams = {
     kick: true,
     snare: true,
     hihat: true,
+    openhat: true,
     clap: true,
+    lowtom: true,
+    midtom: true,
+    hightom: true,
+    rimshot: true,
+    cowbell: true,
+    ride: true,
+    crash: true,
+    sampler: true,
+    slicer: true,
     bass: true,
     pad: true,
-    poly: true
+    poly: true,
+    fm: true,
+    kick909: true,
+    snare909: true,
+    hihat909: true,
+    clap909: true
   }
 };
 
+/**
+ * Create the default song: a single entry playing Scene A once
+ */
+export const createDefaultSong = (): Song => ({
+  entries: [{ sceneIndex: 0, repeats: 1 }],
+  loopEnabled: false,
+  loopStart: 0,
+  loopEnd: 0
+});
+
+/**
+ * Default gates match the fixed lengths used before gates existed: a 16th for bass, an 8th for pad and poly
+ */
+const DEFAULT_GATES: Record<GatedInstrument, number> = { bass: 1, pad: 2, poly: 2, fm: 2 };
+
+const createDefaultGates = (): Record<GatedInstrument, number[]> => ({
+  bass: new Array(MAX_STEPS).fill(DEFAULT_GATES.bass),
+  pad: new Array(MAX_STEPS).fill(DEFAULT_GATES.pad),
+  poly: new Array(MAX_STEPS).fill(DEFAULT_GATES.poly),
+  fm: new Array(MAX_STEPS).fill(DEFAULT_GATES.fm),
+});
+
 /**
  * Create a single empty scene
  */
 export const createEmptyScene = (name: string): Scene => {
-  const instruments: Instrument[] = ['kick', 'snare', 'hihat', 'clap', 'bass', 'pad', 'poly', 'kick909', 'snare909', 'hihat909', 'clap909'];
+  const instruments: Instrument[] = ['kick', 'snare', 'hihat', 'openhat', 'clap', 'lowtom', 'midtom', 'hightom', 'rimshot', 'cowbell', 'ride', 'crash', 'sampler', 'slicer', 'bass', 'pad', 'poly', 'fm', 'kick909', 'snare909', 'hihat909', 'clap909'];
   
   const emptyGrid: Record<Instrument, boolean[]> = {} as Record<Instrument, boolean[]>;
   const emptyVolumes: Record<Instrument, number> = {} as Record<Instrument, number>;
@@ -61,47 +110,120 @@ export const createEmptyScene = (name: string): Scene => {
   const emptyDelaySends: Record<Instrument, number> = {} as Record<Instrument, number>;
   const emptyEqGains: Record<Instrument, { low: number; mid: number; high: number }> = {} as Record<Instrument, { low: number; mid: number; high: number }>;
   const emptyVelocities: Record<Instrument, number[]> = {} as Record<Instrument, number[]>;
+  const emptyProbabilities: Record<Instrument, number[]> = {} as Record<Instrument, number[]>;
+  const emptyConditions: Record<Instrument, TrigCondition[]> = {} as Record<Instrument, TrigCondition[]>;
+  const emptyNudges: Record<Instrument, number[]> = {} as Record<Instrument, number[]>;
+  const emptyRatchets: Record<Instrument, number[]> = {} as Record<Instrument, number[]>;
+  const emptyRatchetRamps: Record<Instrument, RatchetRamp[]> = {} as Record<Instrument, RatchetRamp[]>;
   const emptyMutes: Record<Instrument, boolean> = {} as Record<Instrument, boolean>;
   const emptySolos: Record<Instrument, boolean> = {} as Record<Instrument, boolean>;
+  const emptyTrackLengths: Record<Instrument, number> = {} as Record<Instrument, number>;
+  const emptyTrackResolutions: Record<Instrument, StepResolution> = {} as Record<Instrument, StepResolution>;
+  const emptyTrackGrooves: Record<Instrument, string | null> = {} as Record<Instrument, string | null>;
+  const emptyTrackSwing: Record<Instrument, number | null> = {} as Record<Instrument, number | null>;
+  const emptyChokeGroups: Record<Instrument, number | null> = {} as Record<Instrument, number | null>;
   
   instruments.forEach(inst => {
-    emptyGrid[inst] = new Array(16).fill(false);
+    emptyGrid[inst] = new Array(MAX_STEPS).fill(false);
     emptyVolumes[inst] = -12;
     emptyReverbSends[inst] = -60;
     emptyDelaySends[inst] = -60;
     emptyEqGains[inst] = { low: 0, mid: 0, high: 0 };
-    emptyVelocities[inst] = new Array(16).fill(100); // Default velocity 100/127
+    emptyVelocities[inst] = new Array(MAX_STEPS).fill(100); // Default velocity 100/127
+    emptyProbabilities[inst] = new Array(MAX_STEPS).fill(100);
+    emptyConditions[inst] = new Array(MAX_STEPS).fill('always');
+    emptyNudges[inst] = new Array(MAX_STEPS).fill(0);
+    emptyRatchets[inst] = new Array(MAX_STEPS).fill(1);
+    emptyRatchetRamps[inst] = new Array(MAX_STEPS).fill('flat');
     emptyMutes[inst] = false;
     emptySolos[inst] = false;
+    emptyTrackLengths[inst] = DEFAULT_TRACK_LENGTH;
+    emptyTrackResolutions[inst] = '16n';
+    emptyTrackGrooves[inst] = null;
+    emptyTrackSwing[inst] = null;
+    emptyChokeGroups[inst] = null;
   });
+  // The closed hat cuts the open hat's tail
+  emptyChokeGroups.hihat = 1;
+  emptyChokeGroups.openhat = 1;
   
   const defaultParams: InstrumentParams = {
     kick: { tune: 0.05, decay: 0.4, distortion: 0 },
     snare: { tone: 3000, snappy: 0.2 },
     hihat: { decay: 0.2, tone: 3000 },
+    openhat: { decay: 0.8, tone: 3000 },
     clap: { decay: 0.3, tone: 1500 },
+    lowtom: { tune: 90, decay: 0.5 },
+    midtom: { tune: 130, decay: 0.4 },
+    hightom: { tune: 180, decay: 0.35 },
+    rimshot: { tune: 450, decay: 0.04 },
+    cowbell: { tune: 540, decay: 0.3 },
+    ride: { decay: 1.6, tone: 5000 },
+    crash: { decay: 2.2, tone: 3500 },
+    sampler: { start: 0, end: 1, pitch: 0, reverse: 0, attack: 0.001, release: 0.05 },
+    slicer: { pitch: 0, attack: 0.001, release: 0.02 },
+    kick909: { tune: 50, sweep: 0.04, decay: 0.5, click: 0.5 },
+    snare909: { tune: 185, tone: 7000, snappy: 0.6, decay: 0.2 },
+    hihat909: { decay: 0.1, tone: 7000 },
+    clap909: { decay: 0.25, tone: 1200 },
     bass: { cutoff: 200, resonance: 2, envMod: 2, decay: 0.2 },
     pad: { attack: 0.3, release: 1.5, cutoff: 2000, detune: 12, distortion: 0 },
-    poly: { attack: 0.1, decay: 0.2, sustain: 0.5, release: 1.0, filter: 2000, detune: 0, oscillator: 'square' }
+    poly: { attack: 0.1, decay: 0.2, sustain: 0.5, release: 1.0, filter: 2000, detune: 0, oscillator: 'square' },
+    fm: {
+      operators: 2, algorithm: 0,
+      op1Ratio: 1, op1Level: 0.8, op1Attack: 0.005, op1Decay: 1.2, op1Sustain: 0.2, op1Release: 0.6,
+      op2Ratio: 1, op2Level: 2.5, op2Attack: 0.005, op2Decay: 0.5, op2Sustain: 0.1, op2Release: 0.5,
+      op3Ratio: 2, op3Level: 1, op3Attack: 0.005, op3Decay: 0.4, op3Sustain: 0.1, op3Release: 0.4,
+      op4Ratio: 3.5, op4Level: 0.5, op4Attack: 0.005, op4Decay: 0.3, op4Sustain: 0, op4Release: 0.3
+    }
   };
 
   return {
     name,
     grid: emptyGrid,
-    bassPitches: new Array(16).fill(36),
-    padPitches: new Array(16).fill(48),
-    padVoicings: new Array(16).fill('single'),
-    polyNotes: new Array(16).fill([]),
+    bassPitches: new Array(MAX_STEPS).fill(36),
+    bassAccents: new Array(MAX_STEPS).fill(false),
+    bassSlides: new Array(MAX_STEPS).fill(false),
+    padPitches: new Array(MAX_STEPS).fill(48),
+    padVoicings: new Array(MAX_STEPS).fill('single'),
+    padInversions: new Array(MAX_STEPS).fill(0),
+    padSpread: 'close',
+    padVoiceLeading: false,
+    arps: { pad: { ...DEFAULT_ARP }, poly: { ...DEFAULT_ARP } },
+    polyNotes: new Array(MAX_STEPS).fill([]),
+    fmNotes: new Array(MAX_STEPS).fill([]),
+    gates: createDefaultGates(),
+    trackLengths: emptyTrackLengths,
+    trackResolutions: emptyTrackResolutions,
+    patternLength: 16,
+    stepGrouping: '4/4',
     volumes: emptyVolumes,
     reverbSends: emptyReverbSends,
     delaySends: emptyDelaySends,
     eqGains: emptyEqGains,
     velocities: emptyVelocities,
+    probabilities: emptyProbabilities,
+    conditions: emptyConditions,
+    nudges: emptyNudges,
+    ratchets: emptyRatchets,
+    ratchetRamps: emptyRatchetRamps,
+    paramLocks: {},
     params: defaultParams,
     mutes: emptyMutes,
     solos: emptySolos,
     bpm: 120,
-    swing: 0
+    swing: 0,
+    groove: DEFAULT_GROOVE_ID,
+    trackGrooves: emptyTrackGrooves,
+    trackSwing: emptyTrackSwing,
+    chokeGroups: emptyChokeGroups,
+    sample: null,
+    samplerPitches: new Array(MAX_STEPS).fill(0),
+    slicerSample: null,
+    slicerMode: 'equal',
+    slicerCount: DEFAULT_SLICE_COUNT,
+    // Play the slices in order, one per step
+    slicerSlices: Array.from({ length: MAX_STEPS }, (_, i) => i % DEFAULT_SLICE_COUNT)
   };
 };
 
@@ -113,30 +235,186 @@ export const createDefaultScenes = (): Scene[] => {
   return sceneLabels.map(label => createEmptyScene(`Scene ${label}`));
 };
 
+/**
+ * Pad every row of a per-instrument step record to MAX_STEPS
+ */
+const fitStepRecord = <T>(defaults: Record<Instrument, T[]>, saved: Partial<Record<Instrument, T[]>> | undefined, fill: T): Record<Instrument, T[]> => {
+  const result = { ...defaults };
+  (Object.keys(defaults) as Instrument[]).forEach(inst => {
+    result[inst] = fitSteps(saved?.[inst], fill);
+  });
+  return result;
+};
+
+/**
+ * Keep only numeric locks on valid steps
+ */
+const migrateParamLocks = (locks: unknown): ParamLocks => {
+  const result: ParamLocks = {};
+  if (!locks || typeof locks !== 'object') return result;
+  Object.entries(locks as Record<string, unknown>).forEach(([path, steps]) => {
+    if (!steps || typeof steps !== 'object') return;
+    const valid: Record<number, number> = {};
+    Object.entries(steps as Record<string, unknown>).forEach(([step, value]) => {
+      const index = Number(step);
+      if (Number.isInteger(index) && index >= 0 && index < MAX_STEPS && typeof value === 'number') valid[index] = value;
+    });
+    if (Object.keys(valid).length > 0) result[path] = valid;
+  });
+  return result;
+};
+
 /**
  * Migrate a partial/old scene object to a full Scene object with defaults
  */
 const migrateScene = (scene: any): Scene => {
   const defaultScene = createEmptyScene(scene.name || 'Untitled');
+
+  // Scenes saved before per-track lengths ran every track over 16 steps
+  const trackLengths = { ...defaultScene.trackLengths };
+  (Object.keys(trackLengths) as Instrument[]).forEach(inst => {
+    const saved = scene.trackLengths?.[inst];
+    if (saved !== undefined) trackLengths[inst] = clampTrackLength(saved);
+  });
+
+  // Scenes saved before per-track resolutions ran every track in 16ths
+  const trackResolutions = { ...defaultScene.trackResolutions };
+  (Object.keys(trackResolutions) as Instrument[]).forEach(inst => {
+    const saved = scene.trackResolutions?.[inst];
+    if (STEP_RESOLUTIONS.includes(saved)) trackResolutions[inst] = saved;
+  });
+
+  // Scenes saved before trig conditions always fired every active step
+  const probabilities = fitStepRecord(defaultScene.probabilities, scene.probabilities, 100);
+  const conditions = fitStepRecord<TrigCondition>(defaultScene.conditions, scene.conditions, 'always');
+  (Object.keys(probabilities) as Instrument[]).forEach(inst => {
+    probabilities[inst] = probabilities[inst].map(p => Math.max(0, Math.min(100, Number(p) || 0)));
+    conditions[inst] = conditions[inst].map(c => TRIG_CONDITIONS.includes(c) ? c : 'always');
+  });
+
+  const gates = createDefaultGates();
+  GATED_INSTRUMENTS.forEach(inst => {
+    gates[inst] = fitSteps(scene.gates?.[inst], DEFAULT_GATES[inst])
+      .map(g => Math.max(MIN_GATE, Math.min(MAX_GATE, Number(g) || DEFAULT_GATES[inst])));
+  });
+
+  const nudges = fitStepRecord(defaultScene.nudges, scene.nudges, 0);
+  (Object.keys(nudges) as Instrument[]).forEach(inst => {
+    nudges[inst] = nudges[inst].map(n => Math.max(-MAX_NUDGE, Math.min(MAX_NUDGE, Number(n) || 0)));
+  });
+
+  const ratchets = fitStepRecord(defaultScene.ratchets, scene.ratchets, 1);
+  const ratchetRamps = fitStepRecord<RatchetRamp>(defaultScene.ratchetRamps, scene.ratchetRamps, 'flat');
+  (Object.keys(ratchets) as Instrument[]).forEach(inst => {
+    ratchets[inst] = ratchets[inst].map(r => Math.max(1, Math.min(MAX_RATCHETS, Math.round(Number(r)) || 1)));
+    ratchetRamps[inst] = ratchetRamps[inst].map(r => r === 'up' || r === 'down' ? r : 'flat');
+  });
+
+  // Scenes saved before per-track grooves had every track follow the global swing
+  const trackGrooves = { ...defaultScene.trackGrooves };
+  const trackSwing = { ...defaultScene.trackSwing };
+  (Object.keys(trackGrooves) as Instrument[]).forEach(inst => {
+    const groove = scene.trackGrooves?.[inst];
+    const swing = scene.trackSwing?.[inst];
+    if (typeof groove === 'string') trackGrooves[inst] = groove;
+    if (typeof swing === 'number') trackSwing[inst] = Math.max(0, Math.min(1, swing));
+  });
+
+  // Scenes saved before choke groups get the default hat pair
+  const chokeGroups = { ...defaultScene.chokeGroups };
+  if (scene.chokeGroups && typeof scene.chokeGroups === 'object') {
+    (Object.keys(chokeGroups) as Instrument[]).forEach(inst => {
+      const group = scene.chokeGroups[inst];
+      if (group === null || (Number.isInteger(group) && group >= 1 && group <= MAX_CHOKE_GROUPS)) chokeGroups[inst] = group;
+    });
+  }
+
   return {
     ...defaultScene,
     ...scene,
-    grid: { ...defaultScene.grid, ...(scene.grid || {}) },
+    grid: fitStepRecord(defaultScene.grid, scene.grid, false),
     volumes: { ...defaultScene.volumes, ...(scene.volumes || {}) },
     reverbSends: { ...defaultScene.reverbSends, ...(scene.reverbSends || {}) },
     delaySends: { ...defaultScene.delaySends, ...(scene.delaySends || {}) },
     eqGains: { ...defaultScene.eqGains, ...(scene.eqGains || {}) },
-    velocities: { ...defaultScene.velocities, ...(scene.velocities || {}) },
+    velocities: fitStepRecord(defaultScene.velocities, scene.velocities, 100),
+    probabilities,
+    conditions,
+    nudges,
+    ratchets,
+    ratchetRamps,
+    paramLocks: migrateParamLocks(scene.paramLocks),
     params: { ...defaultScene.params, ...(scene.params || {}) },
     mutes: { ...defaultScene.mutes, ...(scene.mutes || {}) },
     solos: { ...defaultScene.solos, ...(scene.solos || {}) },
-    bassPitches: scene.bassPitches || defaultScene.bassPitches,
-    padPitches: scene.padPitches || defaultScene.padPitches,
-    padVoicings: scene.padVoicings || defaultScene.padVoicings,
-    polyNotes: scene.polyNotes || defaultScene.polyNotes,
+    bassPitches: fitSteps(scene.bassPitches, 36),
+    bassAccents: fitSteps(scene.bassAccents, false),
+    bassSlides: fitSteps(scene.bassSlides, false),
+    padPitches: fitSteps(scene.padPitches, 48),
+    padVoicings: fitSteps(scene.padVoicings, 'single').map(v => isChordType(v) ? v : 'single'),
+    padInversions: fitSteps(scene.padInversions, 0)
+      .map(i => Math.max(0, Math.min(MAX_INVERSION, Math.round(Number(i)) || 0))),
+    padSpread: CHORD_SPREADS.includes(scene.padSpread) ? scene.padSpread : defaultScene.padSpread,
+    padVoiceLeading: scene.padVoiceLeading === true,
+    arps: { pad: sanitizeArp(scene.arps?.pad), poly: sanitizeArp(scene.arps?.poly) },
+    polyNotes: fitSteps<number[]>(scene.polyNotes, []),
+    fmNotes: fitSteps<number[]>(scene.fmNotes, []),
+    gates,
+    trackLengths,
+    trackResolutions,
+    patternLength: clampPatternLength(scene.patternLength ?? defaultScene.patternLength),
+    stepGrouping: scene.stepGrouping in STEP_GROUPINGS ? scene.stepGrouping : defaultScene.stepGrouping,
+    bpm: clampBpm(scene.bpm ?? defaultScene.bpm),
+    groove: typeof scene.groove === 'string' ? scene.groove : defaultScene.groove,
+    trackGrooves,
+    trackSwing,
+    chokeGroups,
+    sample: isSampleRef(scene.sample) ? { id: scene.sample.id, name: scene.sample.name } : null,
+    samplerPitches: fitSteps(scene.samplerPitches, 0)
+      .map(p => Math.max(-MAX_SAMPLE_PITCH, Math.min(MAX_SAMPLE_PITCH, Math.round(Number(p)) || 0))),
+    slicerSample: isSampleRef(scene.slicerSample) ? { id: scene.slicerSample.id, name: scene.slicerSample.name } : null,
+    slicerMode: SLICE_MODES.includes(scene.slicerMode) ? scene.slicerMode : defaultScene.slicerMode,
+    slicerCount: Math.max(1, Math.min(MAX_SLICES, Math.round(Number(scene.slicerCount)) || defaultScene.slicerCount)),
+    slicerSlices: fitSteps(scene.slicerSlices, 0)
+      .map(s => Math.max(0, Math.min(MAX_SLICES - 1, Math.round(Number(s)) || 0))),
+  };
+};
+
+/**
+ * Migrate a partial/old song object, dropping entries that point at missing scenes
+ */
+const migrateSong = (song: Partial<Song> | undefined): Song => {
+  const defaultSong = createDefaultSong();
+  if (!song || typeof song !== 'object' || !Array.isArray(song.entries)) return defaultSong;
+
+  const entries: SongEntry[] = (song.entries as Partial<SongEntry>[])
+    .filter(e => e && typeof e.sceneIndex === 'number' && e.sceneIndex >= 0 && e.sceneIndex < 8)
+    .map(e => ({
+      sceneIndex: e.sceneIndex as number,
+      repeats: Math.max(1, Math.min(MAX_SONG_REPEATS, Math.round(Number(e.repeats)) || 1))
+    }));
+  if (entries.length === 0) return defaultSong;
+
+  const clampEntry = (i: unknown) => Math.max(0, Math.min(entries.length - 1, typeof i === 'number' ? i : 0));
+  const loopStart = clampEntry(song.loopStart);
+  return {
+    entries,
+    loopEnabled: !!song.loopEnabled,
+    loopStart,
+    loopEnd: Math.max(loopStart, clampEntry(song.loopEnd))
   };
 };
 
+/**
+ * Keep valid user grooves, dropping any that reuse a built-in id
+ */
+const migrateGrooves = (grooves: unknown): GrooveTemplate[] => {
+  if (!Array.isArray(grooves)) return [];
+  return grooves
+    .map(sanitizeGroove)
+    .filter((g): g is GrooveTemplate => g !== null && !isBuiltInGroove(g.id));
+};
+
 /**
  * Save all scenes to localStorage
  */
@@ -247,12 +525,15 @@ export const downloadScene = (scene: Scene): void => {
 /**
  * Export all scenes as a project file JSON string
  */
-export const exportProject = (scenes: Scene[], proModeParams?: import('../types').ProModeParams): string => {
+export const exportProject = (scenes: Scene[], proModeParams?: import('../types').ProModeParams, song?: Song, grooves?: GrooveTemplate[], samples?: EmbeddedSample[]): string => {
   const project: import('../types').ProjectFile = {
     version: 1,
     timestamp: Date.now(),
     scenes,
-    proModeParams
+    proModeParams,
+    song,
+    grooves,
+    samples
   };
   return JSON.stringify(project, null, 2);
 };
@@ -260,8 +541,8 @@ export const exportProject = (scenes: Scene[], proModeParams?: import('../types'
 /**
  * Download all scenes as a project file
  */
-export const downloadProject = (scenes: Scene[], proModeParams?: import('../types').ProModeParams): void => {
-  const json = exportProject(scenes, proModeParams);
+export const downloadProject = (scenes: Scene[], proModeParams?: import('../types').ProModeParams, song?: Song, grooves?: GrooveTemplate[], samples?: EmbeddedSample[]): void => {
+  const json = exportProject(scenes, proModeParams, song, grooves, samples);
   const blob = new Blob([json], { type: 'application/json' });
   const url = URL.createObjectURL(blob);
   
@@ -296,7 +577,10 @@ export const parseProjectFile = (jsonString: string): import('../types').Project
         version: parsed.version,
         timestamp: parsed.timestamp || Date.now(),
         scenes: parsed.scenes.map((s: any) => migrateScene(s)),
-        proModeParams: parsed.proModeParams
+        proModeParams: parsed.proModeParams,
+        song: parsed.song ? migrateSong(parsed.song) : undefined,
+        grooves: parsed.grooves ? migrateGrooves(parsed.grooves) : undefined,
+        samples: parsed.samples ? sanitizeEmbeddedSamples(parsed.samples) : undefined
       };
     }
     return null;
@@ -342,3 +626,53 @@ export const loadProModeParams = (): import('../types').ProModeParams => {
     return DEFAULT_PRO_MODE_PARAMS;
   }
 };
+
+/**
+ * Save the song arrangement to localStorage
+ */
+export const saveSong = (song: Song): void => {
+  try {
+    localStorage.setItem(SONG_KEY, JSON.stringify(song));
+  } catch (error) {
+    console.error('Failed to save song:', error);
+  }
+};
+
+/**
+ * Load the song arrangement from localStorage
+ */
+export const loadSong = (): Song => {
+  try {
+    const data = localStorage.getItem(SONG_KEY);
+    if (!data) return createDefaultSong();
+    return migrateSong(JSON.parse(data));
+  } catch (error) {
+    console.error('Failed to load song:', error);
+    return createDefaultSong();
+  }
+};
+
+/**
+ * Save user groove templates to localStorage
+ */
+export const saveGrooves = (grooves: GrooveTemplate[]): void => {
+  try {
+    localStorage.setItem(GROOVES_KEY, JSON.stringify(grooves));
+  } catch (error) {
+    console.error('Failed to save grooves:', error);
+  }
+};
+
+/**
+ * Load user groove templates from localStorage
+ */
+export const loadGrooves = (): GrooveTemplate[] => {
+  try {
+    const data = localStorage.getItem(GROOVES_KEY);
+    if (!data) return [];
+    return migrateGrooves(JSON.parse(data));
+  } catch (error) {
+    console.error('Failed to load grooves:', error);
+    return [];
+  }
+};
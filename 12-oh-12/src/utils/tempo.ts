@@ -0,0 +1,35 @@
+import { MIN_BPM, MAX_BPM } from '../types';
+
+/** Tap tempo starts over after a pause this long (ms) */
+export const TAP_RESET_MS = 2000;
+/** Taps averaged for the tempo */
+const TAP_HISTORY = 5;
+
+/** How far the nudge buttons bend the tempo while held (0.04 = 4%) */
+export const TEMPO_NUDGE = 0.04;
+
+/**
+ * Clamp a tempo to MIN_BPM-MAX_BPM and round it to one decimal place
+ */
+export const clampBpm = (bpm: number): number => {
+  if (typeof bpm !== 'number' || isNaN(bpm)) return 120;
+  return Math.round(Math.max(MIN_BPM, Math.min(MAX_BPM, bpm)) * 10) / 10;
+};
+
+/**
+ * Add a tap (ms timestamp) to the tap list, dropping old taps and starting over after a pause
+ */
+export const addTap = (taps: number[], time: number): number[] => {
+  const last = taps[taps.length - 1];
+  if (last === undefined || time - last > TAP_RESET_MS) return [time];
+  return [...taps, time].slice(-TAP_HISTORY);
+};
+
+/**
+ * Tempo from the average interval between taps, or null until there are two taps
+ */
+export const getTapTempo = (taps: number[]): number | null => {
+  if (taps.length < 2) return null;
+  const interval = (taps[taps.length - 1] - taps[0]) / (taps.length - 1);
+  return clampBpm(60000 / interval);
+};